@@ -13,11 +13,14 @@ import CardCatalogue from './components/CardCatalogue';
 import DebugPointerInfo from './components/DebugPointerInfo';
 import WinScreen from './components/WinScreen';
 import RulebookModal from './components/RulebookModal';
+import ReplayControls from './components/ReplayControls';
+import SpectatorBanner from './components/SpectatorBanner';
+import ChatPanel from './components/ChatPanel';
 import { gameService } from './services/gameService';
 import { soundService } from './services/soundService';
 import { ENABLE_CHARACTER_SYSTEM } from './featureFlags';
 import { GameState, PlayerId, AppStatus, Effect, UnitType, Talent } from './types';
-import { COLORS, CHARACTERS, TURN_TIMER_SECONDS } from './constants';
+import { COLORS, CHARACTERS } from './constants';
 import { groupCards } from './utils/cardUtils';
 import { clampTerrainBrushSize, isBrushEnabledTerrainTool } from './utils/terrainBrush';
 
@@ -320,7 +323,9 @@ const App: React.FC = () => {
         const previousWinner = previousWinnerRef.current;
         const winnerKey = gameState.winner ? gameState.winner.join('|') : null;
         const perspectivePlayer = gameState.isMultiplayer ? gameState.myPlayerId : PlayerId.ONE;
-        const isLocalTurn = !gameState.isMultiplayer || gameState.myPlayerId === gameState.currentTurn;
+        const isLocalTurn = gameState.isMultiplayer
+            ? gameState.myPlayerId === gameState.currentTurn
+            : !gameState.aiPlayers[gameState.currentTurn];
 
         if (
             previousTurn !== null
@@ -436,6 +441,9 @@ const App: React.FC = () => {
             if (e.code === 'Space') {
                 if (gameState.appStatus === AppStatus.PLAYING) {
                     gameService.skipTurn();
+                } else if (gameState.appStatus === AppStatus.REPLAY) {
+                    e.preventDefault();
+                    gameService.toggleReplayPlayback();
                 }
             }
 
@@ -448,6 +456,8 @@ const App: React.FC = () => {
                     gameService.exitCardCatalogue();
                 } else if (gameState.appStatus === AppStatus.RULEBOOK) {
                     gameService.exitRulebook();
+                } else if (gameState.appStatus === AppStatus.REPLAY) {
+                    gameService.exitReplay();
                 }
             }
 
@@ -492,20 +502,26 @@ const App: React.FC = () => {
     const currentPlayerDeck = gameState.decks[gameState.currentTurn];
     const controlledPlayerId = gameState.isMultiplayer ? gameState.myPlayerId : gameState.currentTurn;
     const winScreenPerspectivePlayerId = gameState.isMultiplayer ? gameState.myPlayerId : PlayerId.ONE;
-    const isLocalTurn = !gameState.isMultiplayer || gameState.myPlayerId === gameState.currentTurn;
+    const isLocalTurn = gameState.isMultiplayer
+        ? gameState.myPlayerId === gameState.currentTurn
+        : !gameState.aiPlayers[gameState.currentTurn];
     const playerColor = getPlayerColor(gameState.currentTurn);
     const selectedUnit = gameState.units.find(u => u.id === gameState.selectedUnitId) || null;
     const isPlaying = gameState.appStatus === AppStatus.PLAYING || gameState.appStatus === AppStatus.TALENT_SELECTION || gameState.appStatus === AppStatus.SHOP;
-    const showInventoryBar = !gameState.isMultiplayer || isLocalTurn;
-    const showUnitControlPanel = !gameState.isMultiplayer || isLocalTurn || gameState.isInGameAdmin;
+    const showInventoryBar = isLocalTurn;
+    const showUnitControlPanel = isLocalTurn || gameState.isInGameAdmin;
     const showTurnTimer = !gameState.isDevMode
         && !gameState.winner
         && gameState.activePlayerIds.includes(gameState.currentTurn)
         && (gameState.appStatus === AppStatus.PLAYING || gameState.appStatus === AppStatus.SHOP || gameState.appStatus === AppStatus.PAUSED);
     const displayRevealedTiles = gameState.revealedTiles;
-    const turnElapsedMs = Math.max(0, timerNow - gameState.turnStartedAt);
-    const turnRemainingSeconds = Math.max(0, Math.ceil(((TURN_TIMER_SECONDS * 1000) - turnElapsedMs) / 1000));
-    const turnOvertimeSeconds = Math.max(0, Math.floor((turnElapsedMs - (TURN_TIMER_SECONDS * 1000)) / 1000));
+    // Multiplayer shows the server's deadline; solo (and spectators) count from the local turn start.
+    const turnClock = gameState.isMultiplayer && gameState.turnClock?.playerId === gameState.currentTurn ? gameState.turnClock : null;
+    const turnRemainingMs = turnClock
+        ? (turnClock.pausedRemainingMs ?? (turnClock.deadlineAt - timerNow))
+        : (gameState.matchRules.turnTimerSeconds * 1000) - Math.max(0, timerNow - gameState.turnStartedAt);
+    const turnRemainingSeconds = Math.max(0, Math.ceil(turnRemainingMs / 1000));
+    const turnOvertimeSeconds = Math.max(0, Math.floor(-turnRemainingMs / 1000));
     const turnTimerLabel = turnOvertimeSeconds > 0
         ? `OVERTIME ${formatTimerValue(turnOvertimeSeconds)}`
         : `TURN ${formatTimerValue(turnRemainingSeconds)}`;
@@ -584,14 +600,20 @@ const App: React.FC = () => {
                     lobbyMaxPlayers={gameState.lobbyMaxPlayers}
                     hostAdminEnabled={gameState.hostAdminEnabled}
                     fogOfWarDisabled={gameState.fogOfWarDisabled}
+                    matchRules={gameState.matchRules}
+                    spectatorPerspective={gameState.spectatorPerspective}
+                    publicLobbies={gameState.publicLobbies}
                     isMultiplayer={gameState.isMultiplayer}
                     isDevMode={gameState.isDevMode}
+                    isLobbyHost={gameState.isLobbyHost}
+                    disconnectedPlayerIds={gameState.disconnectedPlayerIds}
+                    seatRejoinCodes={gameState.seatRejoinCodes}
                     pauseBlockedReason={gameState.isAwaitingReconnect ? `Waiting for ${gameState.disconnectedPlayerIds.join(', ')} to reconnect.` : null}
                 />
             )}
 
             {/* Character Selection Modal */}
-            {ENABLE_CHARACTER_SYSTEM && gameState.appStatus === AppStatus.CHARACTER_SELECTION && (
+            {ENABLE_CHARACTER_SYSTEM && gameState.appStatus === AppStatus.CHARACTER_SELECTION && !gameState.spectatorPerspective && (
                 <CharacterSelectionModal
                     playerCharacters={gameState.playerCharacters}
                     activePlayerIds={gameState.activePlayerIds}
@@ -601,7 +623,7 @@ const App: React.FC = () => {
             )}
 
             {/* Talent Selection Modal Overlay */}
-            {gameState.appStatus === AppStatus.TALENT_SELECTION && (!gameState.isMultiplayer || isLocalTurn) && (
+            {gameState.appStatus === AppStatus.TALENT_SELECTION && isLocalTurn && (
                 <TalentSelectionModal
                     choices={gameState.talentChoices}
                     onSelect={(t) => gameService.chooseTalent(t)}
@@ -609,7 +631,7 @@ const App: React.FC = () => {
             )}
 
             {/* Shop Modal */}
-            {gameState.appStatus === AppStatus.SHOP && (!gameState.isMultiplayer || isLocalTurn) && (
+            {gameState.appStatus === AppStatus.SHOP && isLocalTurn && (
                 <ShopModal
                     availableStock={gameState.shopStock[gameState.currentTurn]}
                     boughtItems={gameState.pendingOrders[gameState.currentTurn]}
@@ -647,10 +669,63 @@ const App: React.FC = () => {
                     isDevMode={gameState.isDevMode}
                     roundNumber={gameState.roundNumber}
                     onRestartCurrentMap={() => gameService.restartCurrentMap()}
+                    onDownloadReplay={gameState.isMultiplayer ? () => gameService.downloadReplay() : undefined}
                     onAbortToMenu={() => gameService.restartGame()}
+                    matchSeries={gameState.matchSeries}
+                    isLobbyHost={gameState.isLobbyHost}
+                    onRematchVote={gameState.isMultiplayer && gameState.myPlayerId ? (accept) => gameService.voteRematch(accept) : undefined}
+                    onRematchRotationChange={(rotateTurnOrder) => gameService.setRematchTurnRotation(rotateTurnOrder)}
                 />
             )}
 
+            {gameState.spectatorPerspective && gameState.appStatus !== AppStatus.MENU && gameState.appStatus !== AppStatus.GAME_OVER && (
+                <SpectatorBanner
+                    roomId={gameState.roomId}
+                    perspective={gameState.spectatorPerspective}
+                    playerIds={gameState.turnOrder}
+                    delayMs={gameState.spectatorDelayMs}
+                    onSetPerspective={(perspective) => gameService.setSpectatorPerspective(perspective)}
+                    onLeave={() => gameService.restartGame()}
+                />
+            )}
+
+            {gameState.appStatus === AppStatus.REPLAY && gameState.replay && (
+                <>
+                    <div className="absolute top-4 left-1/2 z-20 -translate-x-1/2 pointer-events-none">
+                        <div className="flex items-center gap-6 rounded-full border border-cyan-900 bg-black/40 px-6 py-2 shadow-[0_0_15px_rgba(34,211,238,0.2)] backdrop-blur-sm">
+                            <div className="flex flex-col items-center justify-center border-r border-slate-700/50 pr-6">
+                                <div className="text-[8px] text-cyan-500/70 font-bold uppercase tracking-wider leading-none mb-0.5">LEVEL</div>
+                                <div className="text-lg font-mono font-bold text-white leading-none">{gameState.roundNumber.toString().padStart(2, '0')}</div>
+                            </div>
+                            <div
+                                className="text-sm font-bold tracking-widest"
+                                style={{ color: getPlayerColor(gameState.currentTurn), textShadow: `0 0 5px ${getPlayerColor(gameState.currentTurn)}` }}
+                            >
+                                {getPlayerLabel(gameState.currentTurn)}
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="absolute top-16 left-4 w-72 pointer-events-auto z-10">
+                        <Minimap
+                            units={gameState.units}
+                            revealedTiles={displayRevealedTiles}
+                            terrain={gameState.terrain}
+                            mapBounds={gameState.mapBounds}
+                        />
+                    </div>
+
+                    <ReplayControls
+                        replay={gameState.replay}
+                        onTogglePlayback={() => gameService.toggleReplayPlayback()}
+                        onStep={() => gameService.stepReplay()}
+                        onSeekToTurn={(checkpointIndex) => gameService.seekReplayToTurn(checkpointIndex)}
+                        onSetSpeed={(speed) => gameService.setReplaySpeed(speed)}
+                        onExit={() => gameService.exitReplay()}
+                    />
+                </>
+            )}
+
             {isPlaying && (
                 <>
                     <div className="absolute top-4 left-1/2 transform -translate-x-1/2 pointer-events-none w-full max-w-2xl flex flex-col items-center gap-2 z-20">
@@ -687,6 +762,9 @@ const App: React.FC = () => {
                                                     style={isActive ? { color: playerColorValue, textShadow: `0 0 5px ${playerColorValue}` } : undefined}
                                                 >
                                                     {getPlayerLabel(playerId)}
+                                                    {gameState.aiPlayers[playerId] && (
+                                                        <span className="ml-1 text-[8px] font-bold uppercase tracking-wider text-slate-400">AI</span>
+                                                    )}
                                                     <PlayerTooltip
                                                         characterId={ENABLE_CHARACTER_SYSTEM ? gameState.playerCharacters[playerId] : null}
                                                         talents={gameState.playerTalents[playerId]}
@@ -791,6 +869,7 @@ const App: React.FC = () => {
                                     playerColor={playerColor}
                                     deliveredCardIds={gameState.recentlyDeliveredCardIds[gameState.currentTurn]}
                                     isDevMode={gameState.isDevMode}
+                                    inventoryCapacity={gameState.matchRules.maxInventoryCapacity}
                                 />
                             </div>
                         </div>
@@ -911,8 +990,22 @@ const App: React.FC = () => {
                             revealedTiles={displayRevealedTiles}
                             terrain={gameState.terrain}
                             mapBounds={gameState.mapBounds}
+                            pings={gameState.tilePings}
                         />
 
+                        {/* Match Chat (seated multiplayer players only) */}
+                        {gameState.isMultiplayer && gameState.myPlayerId && (
+                            <ChatPanel
+                                messages={gameState.chatMessages}
+                                myPlayerId={gameState.myPlayerId}
+                                playerIds={gameState.turnOrder}
+                                mutedPlayerIds={gameState.mutedPlayerIds}
+                                teamChannelAvailable={gameState.matchMode === 'team_2v1' || gameState.matchMode === 'team_2v2'}
+                                onSend={(text, channel) => gameService.sendChatMessage(text, channel)}
+                                onToggleMute={(playerId) => gameService.toggleMutedPlayer(playerId)}
+                            />
+                        )}
+
                         {/* Map Editor (Only in Dev Mode) */}
                         {gameState.isDevMode && (
                             <MapEditor activeTool={gameState.interactionState.terrainTool} />
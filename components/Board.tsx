@@ -4,7 +4,7 @@ import { useFrame } from '@react-three/fiber';
 import { TILE_SIZE, TILE_SPACING, BOARD_OFFSET, COLORS, CARD_CONFIG, ELEVATION_HEIGHT, BUILDING_TYPES, NEGATIVE_UNIT_EFFECT_NAMES, getUnitClassificationLabel } from '../constants';
 import { gameService } from '../services/gameService';
 import Tile from './Tile';
-import { Unit, UnitType, PlayerId, Position, CardCategory, InteractionState, TerrainData, Collectible, MapBounds, TilePulse } from '../types';
+import { Unit, UnitType, PlayerId, Position, CardCategory, InteractionState, TerrainData, Collectible, MapBounds, TilePulse, TilePing } from '../types';
 import { Html } from '@react-three/drei';
 import { clampTerrainBrushSize, getTerrainBrushFootprint, isBrushEnabledTerrainTool } from '../utils/terrainBrush';
 import * as THREE from 'three';
@@ -237,6 +237,48 @@ const TilePulseEffect: React.FC<{ position: [number, number, number]; kind: 'SAB
     );
 };
 
+const PING_COLORS: Partial<Record<PlayerId, string>> = {
+    [PlayerId.ONE]: COLORS.P1,
+    [PlayerId.TWO]: COLORS.P2,
+    [PlayerId.THREE]: COLORS.P3,
+    [PlayerId.FOUR]: COLORS.P4
+};
+
+// Ally ping: a ring that keeps pulsing until the service drops the ping.
+const TilePingMarker: React.FC<{ position: [number, number, number]; playerId: PlayerId; }> = ({ position, playerId }) => {
+    const ringRef = useRef<THREE.Mesh>(null);
+    const color = PING_COLORS[playerId] || '#ffffff';
+
+    useFrame((state) => {
+        if (!ringRef.current) return;
+        const phase = (state.clock.elapsedTime % 1.2) / 1.2;
+        ringRef.current.scale.setScalar(0.6 + (phase * 1.2));
+        const material = ringRef.current.material as THREE.MeshBasicMaterial;
+        material.opacity = 0.9 * (1 - phase);
+    });
+
+    return (
+        <group position={position}>
+            <mesh ref={ringRef} rotation={[-Math.PI / 2, 0, 0]} raycast={() => null}>
+                <ringGeometry args={[0.35, 0.5, 32]} />
+                <meshBasicMaterial color={color} transparent opacity={0.9} side={THREE.DoubleSide} />
+            </mesh>
+            <mesh position={[0, 0.6, 0]} raycast={() => null}>
+                <coneGeometry args={[0.12, 0.35, 12]} />
+                <meshBasicMaterial color={color} />
+            </mesh>
+            <Html position={[0, 1, 0]} center pointerEvents="none">
+                <div
+                    className="rounded border bg-black/70 px-1.5 py-0.5 text-[9px] font-black tracking-[0.18em] backdrop-blur-sm"
+                    style={{ borderColor: color, color }}
+                >
+                    {playerId}
+                </div>
+            </Html>
+        </group>
+    );
+};
+
 const Board: React.FC<BoardProps> = ({
     revealedTiles,
     units,
@@ -252,6 +294,7 @@ const Board: React.FC<BoardProps> = ({
     const interactionState = (gameService as any).state.interactionState as InteractionState;
     const terrainData = (gameService as any).state.terrain as Record<string, TerrainData>;
     const tilePulse = (gameService as any).state.tilePulse as TilePulse | null;
+    const tilePings = (gameService as any).state.tilePings as TilePing[];
     const matchMode = (gameService as any).state.matchMode as 'duel' | 'team_2v1' | 'team_2v2' | 'ffa';
     const [hoveredTile, setHoveredTile] = useState<Position | null>(null);
 
@@ -310,7 +353,8 @@ const Board: React.FC<BoardProps> = ({
         return Math.max(dx, dz);
     }, []);
 
-    const handleTileClick = React.useCallback((x: number, z: number, pointer?: { source: 'TILE'; eventType?: string; button?: number; pointerType?: string; clientX?: number; clientY?: number; }) => {
+    const handleTileClick = React.useCallback((x: number, z: number, pointer?: { source: 'TILE'; eventType?: string; button?: number; pointerType?: string; clientX?: number; clientY?: number; altKey?: boolean; }) => {
+        if (pointer?.altKey && gameService.pingTile(x, z)) return;
         gameService.handleTileClick(x, z, pointer);
     }, []);
 
@@ -889,6 +933,18 @@ const Board: React.FC<BoardProps> = ({
                 );
             })}
 
+            {tilePings.map((ping) => {
+                const terrain = terrainData[`${ping.x},${ping.z}`];
+                const visualHeight = ((terrain?.elevation || 0) * ELEVATION_HEIGHT) + (terrain?.type === 'RAMP' ? 0.25 : 0);
+                return (
+                    <TilePingMarker
+                        key={ping.id}
+                        position={[(ping.x * tileStride) - BOARD_OFFSET, visualHeight + 0.1, (ping.z * tileStride) - BOARD_OFFSET]}
+                        playerId={ping.playerId}
+                    />
+                );
+            })}
+
             {/* Grid Helper - Lowered slightly */}
             <gridHelper
                 args={[gridSize, gridDivisions, COLORS.GRID_LINE, COLORS.GRID_LINE]}
@@ -4,7 +4,7 @@ import { Canvas } from '@react-three/fiber';
 import { OrbitControls, Stage } from '@react-three/drei';
 import { UnitType, CardCategory } from '../types';
 import { CARD_CONFIG, COLORS, DEV_ONLY_UNITS } from '../constants';
-import { TALENT_POOL } from '../services/gameService';
+import { TALENT_POOL } from '../services/rulesEngine';
 import UnitPreview from './UnitPreview';
 
 interface CardCatalogueProps {
@@ -0,0 +1,145 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatChannel, ChatMessage, PlayerId } from '../types';
+import { COLORS } from '../constants';
+
+interface ChatPanelProps {
+    messages: ChatMessage[];
+    myPlayerId: PlayerId;
+    playerIds: PlayerId[];
+    mutedPlayerIds: PlayerId[];
+    teamChannelAvailable: boolean;
+    onSend: (text: string, channel: ChatChannel) => void;
+    onToggleMute: (playerId: PlayerId) => void;
+}
+
+const CHAT_INPUT_MAX_LENGTH = 200;
+
+const getPlayerColor = (playerId: PlayerId) => {
+    if (playerId === PlayerId.ONE) return COLORS.P1;
+    if (playerId === PlayerId.TWO) return COLORS.P2;
+    if (playerId === PlayerId.THREE) return COLORS.P3;
+    if (playerId === PlayerId.FOUR) return COLORS.P4;
+    return COLORS.NEUTRAL;
+};
+
+const ChatPanel: React.FC<ChatPanelProps> = ({
+    messages,
+    myPlayerId,
+    playerIds,
+    mutedPlayerIds,
+    teamChannelAvailable,
+    onSend,
+    onToggleMute
+}) => {
+    const [isMinimized, setIsMinimized] = useState(true);
+    const [draft, setDraft] = useState('');
+    const [channel, setChannel] = useState<ChatChannel>('ALL');
+    const [lastSeenMessageId, setLastSeenMessageId] = useState<string | null>(messages[messages.length - 1]?.id ?? null);
+    const listRef = useRef<HTMLDivElement>(null);
+    const activeChannel: ChatChannel = teamChannelAvailable ? channel : 'ALL';
+    const latestMessageId = messages[messages.length - 1]?.id ?? null;
+    const unreadCount = isMinimized
+        ? messages.length - (messages.findIndex((message) => message.id === lastSeenMessageId) + 1)
+        : 0;
+    const otherPlayerIds = playerIds.filter((playerId) => playerId !== myPlayerId);
+
+    useEffect(() => {
+        if (isMinimized) return;
+        setLastSeenMessageId(latestMessageId);
+        listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+    }, [isMinimized, latestMessageId]);
+
+    const submit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft.trim()) return;
+        onSend(draft, activeChannel);
+        setDraft('');
+    };
+
+    return (
+        <div
+            className={`rounded-xl border border-purple-500/60 shadow-[0_0_20px_rgba(168,85,247,0.1)] overflow-hidden transition-all duration-300 flex flex-col bg-black/40 ${isMinimized ? 'h-10 flex-none' : 'h-72 flex-none'}`}
+        >
+            <div
+                onClick={() => setIsMinimized(!isMinimized)}
+                className="flex items-center justify-between px-4 py-2 bg-black/40 hover:bg-black/60 cursor-pointer border-b border-purple-500/30 flex-none h-10 select-none"
+            >
+                <h2 className="text-xs font-bold text-white uppercase tracking-widest drop-shadow-md">
+                    Comms
+                    {unreadCount > 0 && (
+                        <span className="ml-2 rounded bg-purple-500/30 px-1.5 py-0.5 text-[9px] text-purple-100">{unreadCount}</span>
+                    )}
+                </h2>
+                <span className="font-mono text-[10px] text-purple-300">{isMinimized ? '[+]' : '[-]'}</span>
+            </div>
+
+            {!isMinimized && (
+                <>
+                    {otherPlayerIds.length > 0 && (
+                        <div className="flex flex-wrap gap-1 border-b border-purple-500/20 px-2 py-1.5 flex-none">
+                            {otherPlayerIds.map((playerId) => {
+                                const isMuted = mutedPlayerIds.includes(playerId);
+                                return (
+                                    <button
+                                        key={playerId}
+                                        onClick={() => onToggleMute(playerId)}
+                                        title={isMuted ? `Unmute ${playerId}` : `Mute ${playerId}`}
+                                        className={`rounded border px-2 py-0.5 text-[9px] font-bold uppercase tracking-widest transition-colors ${
+                                            isMuted
+                                                ? 'border-red-500/60 bg-red-900/30 text-red-200'
+                                                : 'border-gray-600 bg-black/50 text-gray-300 hover:border-gray-400 hover:text-white'
+                                        }`}
+                                    >
+                                        {playerId} {isMuted ? 'Muted' : 'Mute'}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    )}
+
+                    <div ref={listRef} className="p-2 overflow-y-auto game-scrollbar flex-1 min-h-0">
+                        <div className="flex flex-col gap-1">
+                            {messages.length === 0 && (
+                                <div className="text-[10px] font-mono text-gray-500">No messages. Alt-click a tile to ping it for your allies.</div>
+                            )}
+                            {messages.map((message) => (
+                                <div key={message.id} className="text-[10px] font-mono break-words leading-tight">
+                                    {message.channel === 'TEAM' && <span className="mr-1 text-purple-300">[TEAM]</span>}
+                                    <span className="mr-1 font-bold" style={{ color: getPlayerColor(message.playerId) }}>
+                                        {message.playerId}:
+                                    </span>
+                                    <span className="text-gray-100">{message.text}</span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <form onSubmit={submit} className="flex gap-1 border-t border-purple-500/30 p-2 flex-none">
+                        {teamChannelAvailable && (
+                            <button
+                                type="button"
+                                onClick={() => setChannel(activeChannel === 'ALL' ? 'TEAM' : 'ALL')}
+                                className={`rounded border px-2 text-[9px] font-bold uppercase tracking-widest transition-colors ${
+                                    activeChannel === 'TEAM'
+                                        ? 'border-purple-300 bg-purple-500/20 text-purple-100'
+                                        : 'border-gray-600 bg-black/50 text-gray-300 hover:text-white'
+                                }`}
+                            >
+                                {activeChannel}
+                            </button>
+                        )}
+                        <input
+                            value={draft}
+                            onChange={(e) => setDraft(e.target.value)}
+                            maxLength={CHAT_INPUT_MAX_LENGTH}
+                            placeholder={activeChannel === 'TEAM' ? 'Message your team' : 'Message everyone'}
+                            className="min-w-0 flex-1 rounded border border-gray-700 bg-black/60 px-2 py-1 font-mono text-[10px] text-white outline-none focus:border-purple-400"
+                        />
+                    </form>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default ChatPanel;
@@ -11,16 +11,17 @@ interface DeckProps {
     playerColor: string;
     deliveredCardIds?: string[];
     isDevMode?: boolean;
+    inventoryCapacity?: number;
 }
 
-const Deck: React.FC<DeckProps> = ({ cards, selectedId, onSelect, playerColor, deliveredCardIds = [], isDevMode = false }) => {
+const Deck: React.FC<DeckProps> = ({ cards, selectedId, onSelect, playerColor, deliveredCardIds = [], isDevMode = false, inventoryCapacity = MAX_INVENTORY_CAPACITY }) => {
     const [hoveredCard, setHoveredCard] = useState<{ id: string, rect: DOMRect, config: any, isAction: boolean } | null>(null);
     const groupedCards = useMemo(() => groupCards(cards), [cards]);
     const deliveredCardIdSet = useMemo(() => new Set(deliveredCardIds), [deliveredCardIds]);
 
     const visibleGroups = useMemo(() => {
-        return groupedCards.slice(0, MAX_INVENTORY_CAPACITY);
-    }, [groupedCards]);
+        return groupedCards.slice(0, inventoryCapacity);
+    }, [groupedCards, inventoryCapacity]);
 
     const groupedRows = useMemo(() => {
         const rows: Card[][][] = [];
@@ -40,6 +40,7 @@ const GameScene: React.FC<GameSceneProps> = ({
   mapBounds
 }) => {
   const isPlaying = appStatus === AppStatus.PLAYING;
+  const isCameraInteractive = isPlaying || appStatus === AppStatus.REPLAY;
   const revealedSet = useMemo(() => new Set(revealedTiles), [revealedTiles]);
   const isDark = lightMode === 'DARK';
   const quality = useMemo(() => {
@@ -166,11 +167,11 @@ const GameScene: React.FC<GameSceneProps> = ({
           makeDefault
           maxDistance={40}
           minDistance={5}
-          autoRotate={!isPlaying}
+          autoRotate={!isCameraInteractive}
           autoRotateSpeed={0.5}
-          enablePan={isPlaying}
-          enableZoom={isPlaying}
-          enableRotate={isPlaying}
+          enablePan={isCameraInteractive}
+          enableZoom={isCameraInteractive}
+          enableRotate={isCameraInteractive}
         />
 
         {/* Environment Effects */}
@@ -1,8 +1,11 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import MapPreview3D from './MapPreview3D';
-import { AppStatus, EmptyMapConfig, MapMetadata, MatchMode } from '../types';
+import SaveSlotsPanel from './SaveSlotsPanel';
+import MatchRulesPanel from './MatchRulesPanel';
+import { AiDifficulty, AiPlayerAssignments, AppStatus, CONTESTED_PLAYER_IDS, EmptyMapConfig, LobbyListing, MapMetadata, MatchMode, MatchRules, PlayerId, SpectatorPerspective } from '../types';
 import { gameService } from '../services/gameService';
 import { BOARD_SIZE } from '../constants';
+import { areDefaultMatchRules, createDefaultMatchRules } from '../utils/matchRules';
 
 interface MainMenuProps {
   status: AppStatus;
@@ -16,12 +19,38 @@ interface MainMenuProps {
   lobbyMaxPlayers: number;
   hostAdminEnabled: boolean;
   fogOfWarDisabled: boolean;
+  matchRules: MatchRules;
+  spectatorPerspective: SpectatorPerspective | null;
+  publicLobbies: LobbyListing[];
   isMultiplayer: boolean;
   isDevMode: boolean;
+  isLobbyHost?: boolean;
+  disconnectedPlayerIds?: PlayerId[];
+  seatRejoinCodes?: Partial<Record<PlayerId, string>>;
   pauseBlockedReason?: string | null;
 }
 
-type MenuView = 'ROOT' | 'START' | 'SOLO_MAPS' | 'DEV_MAPS' | 'MULTIPLAYER';
+type MenuView = 'ROOT' | 'START' | 'SOLO_MAPS' | 'DEV_MAPS' | 'MULTIPLAYER' | 'SAVE_SLOTS';
+
+const SEAT_CONTROL_OPTIONS: Array<{ value: AiDifficulty | null; label: string }> = [
+  { value: null, label: 'Human' },
+  { value: 'EASY', label: 'Easy AI' },
+  { value: 'NORMAL', label: 'Normal AI' },
+  { value: 'HARD', label: 'Hard AI' }
+];
+
+const SPECTATOR_PERSPECTIVES: SpectatorPerspective[] = ['ALL', ...CONTESTED_PLAYER_IDS];
+
+const SPECTATOR_DELAY_OPTIONS: Array<{ value: number; label: string }> = [
+  { value: 0, label: 'Live' },
+  { value: 15000, label: '15s' },
+  { value: 30000, label: '30s' },
+  { value: 60000, label: '60s' }
+];
+
+const LOBBY_PLAYER_FILTERS: Array<2 | 3 | 4 | null> = [null, 2, 3, 4];
+
+const LOBBY_MODE_FILTERS: Array<MatchMode | null> = [null, 'duel', 'team_2v1', 'team_2v2', 'ffa'];
 
 const MainMenu: React.FC<MainMenuProps> = ({
   status,
@@ -35,8 +64,14 @@ const MainMenu: React.FC<MainMenuProps> = ({
   lobbyMaxPlayers,
   hostAdminEnabled,
   fogOfWarDisabled,
+  matchRules,
+  spectatorPerspective,
+  publicLobbies,
   isMultiplayer,
   isDevMode,
+  isLobbyHost = false,
+  disconnectedPlayerIds = [],
+  seatRejoinCodes = {},
   pauseBlockedReason = null
 }) => {
   const [menuView, setMenuView] = useState<MenuView>('ROOT');
@@ -49,10 +84,20 @@ const MainMenu: React.FC<MainMenuProps> = ({
   const [selectedMultiplayerMap, setSelectedMultiplayerMap] = useState('CrossMap');
   const [hostAdminRequested, setHostAdminRequested] = useState(false);
   const [fogOfWarRequested, setFogOfWarRequested] = useState(false);
+  const [matchRulesRequested, setMatchRulesRequested] = useState<MatchRules>(createDefaultMatchRules);
+  const [spectatorDelayRequested, setSpectatorDelayRequested] = useState(0);
+  const [watchPerspective, setWatchPerspective] = useState<SpectatorPerspective>(CONTESTED_PLAYER_IDS[0]);
+  const [publicLobbyRequested, setPublicLobbyRequested] = useState(false);
+  const [lobbyPlayerFilter, setLobbyPlayerFilter] = useState<2 | 3 | 4 | null>(null);
+  const [lobbyModeFilter, setLobbyModeFilter] = useState<MatchMode | null>(null);
   const [emptyPlayerCount, setEmptyPlayerCount] = useState<2 | 3 | 4>(2);
   const [emptyMode, setEmptyMode] = useState<MatchMode>('duel');
   const [importMessage, setImportMessage] = useState<string | null>(null);
+  const [isSaveSlotsOpen, setIsSaveSlotsOpen] = useState(false);
+  const [soloAiPlayers, setSoloAiPlayers] = useState<AiPlayerAssignments>({});
+  const [soloMatchRules, setSoloMatchRules] = useState<MatchRules>(createDefaultMatchRules);
   const importInputRef = useRef<HTMLInputElement>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
 
   const isTopLevelMenuStatus = status === AppStatus.MENU || status === AppStatus.MAP_SELECTION;
   const canRestartCurrentMap = !isMultiplayer && !isDevMode;
@@ -90,6 +135,12 @@ const MainMenu: React.FC<MainMenuProps> = ({
     return soloMaps.find((map) => map.id === selectedSoloMap) || null;
   }, [soloMaps, selectedSoloMap]);
 
+  // P1 is always the local player; the remaining seats of the selected map can be handed to the AI.
+  const soloOpponentSeats = useMemo(() => {
+    const players = typeof selectedSoloMapMeta?.players === 'number' ? selectedSoloMapMeta.players : 2;
+    return CONTESTED_PLAYER_IDS.slice(1, players);
+  }, [selectedSoloMapMeta]);
+
   const selectedDevMapMeta = useMemo(() => {
     return devMapOptions.find((map) => map.id === selectedDevMap) || null;
   }, [devMapOptions, selectedDevMap]);
@@ -131,13 +182,35 @@ const MainMenu: React.FC<MainMenuProps> = ({
       setIsGeneratingRoomCode(false);
       setHostAdminRequested(false);
       setFogOfWarRequested(false);
+      setMatchRulesRequested(createDefaultMatchRules());
+      setSpectatorDelayRequested(0);
+      setPublicLobbyRequested(false);
       setImportMessage(null);
     } else if (status === AppStatus.MAP_SELECTION) {
       setMenuView('SOLO_MAPS');
       setImportMessage(null);
     }
+
+    if (status !== AppStatus.PAUSED) {
+      setIsSaveSlotsOpen(false);
+    }
   }, [status]);
 
+  const isLobbyBrowserOpen = isTopLevelMenuStatus && menuView === 'MULTIPLAYER' && !hasPendingLobby;
+
+  useEffect(() => {
+    if (!isLobbyBrowserOpen) return;
+    gameService.subscribeLobbyBrowser();
+    return () => gameService.unsubscribeLobbyBrowser();
+  }, [isLobbyBrowserOpen]);
+
+  const filteredPublicLobbies = useMemo(() => {
+    return publicLobbies.filter((listing) => (
+      (!lobbyPlayerFilter || listing.maxPlayers === lobbyPlayerFilter)
+      && (!lobbyModeFilter || listing.matchMode === lobbyModeFilter)
+    ));
+  }, [lobbyModeFilter, lobbyPlayerFilter, publicLobbies]);
+
   useEffect(() => {
     if (roomId) {
       setIsGeneratingRoomCode(false);
@@ -197,8 +270,26 @@ const MainMenu: React.FC<MainMenuProps> = ({
     gameService.joinLobby(code);
   };
 
+  const watchRoom = () => {
+    const code = roomCodeInput.trim().toUpperCase();
+    if (!code) return;
+    gameService.spectateLobby(code, watchPerspective);
+  };
+
   const startSelectedSoloMap = () => {
-    gameService.beginMatchSetup(selectedSoloMap, false);
+    gameService.beginMatchSetup(selectedSoloMap, false, undefined, undefined, undefined, soloAiPlayers, undefined, soloMatchRules);
+  };
+
+  const setSeatControl = (playerId: PlayerId, difficulty: AiDifficulty | null) => {
+    setSoloAiPlayers((prev) => {
+      const next = { ...prev };
+      if (difficulty) {
+        next[playerId] = difficulty;
+      } else {
+        delete next[playerId];
+      }
+      return next;
+    });
   };
 
   const startSelectedDevMap = () => {
@@ -226,7 +317,14 @@ const MainMenu: React.FC<MainMenuProps> = ({
   const createMultiplayerLobby = () => {
     if (hasPendingLobby) return;
     setIsGeneratingRoomCode(true);
-    gameService.createLobby(selectedMultiplayerMap, hostAdminRequested, fogOfWarRequested);
+    gameService.createLobby(
+      selectedMultiplayerMap,
+      hostAdminRequested,
+      fogOfWarRequested,
+      spectatorDelayRequested,
+      publicLobbyRequested,
+      areDefaultMatchRules(matchRulesRequested) ? null : matchRulesRequested
+    );
   };
 
   const openImportDialog = () => {
@@ -271,9 +369,27 @@ const MainMenu: React.FC<MainMenuProps> = ({
     }
   };
 
+  const loadReplayFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const rawJson = await file.text();
+      gameService.loadReplayJson(rawJson);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load replay.';
+      alert(message);
+    } finally {
+      event.target.value = '';
+    }
+  };
+
   const getLobbyStatusLabel = () => {
     if (isGeneratingRoomCode && !roomId) return 'Generating room uplink...';
     if (!hasPendingLobby) return 'No active lobby';
+    if (spectatorPerspective) {
+      return remainingLobbySlots === 0 ? 'Spectating. Match starting...' : `Spectating. Waiting for ${remainingLobbySlots} more player${remainingLobbySlots === 1 ? '' : 's'}`;
+    }
     if (remainingLobbySlots === 0) return 'Lobby full. Initializing match...';
     if (remainingLobbySlots === 1) return 'Waiting for 1 more player';
     return `Waiting for ${remainingLobbySlots} more players`;
@@ -333,7 +449,8 @@ const MainMenu: React.FC<MainMenuProps> = ({
     status === AppStatus.CARD_CATALOGUE ||
     status === AppStatus.CHARACTER_SELECTION ||
     status === AppStatus.SHOP ||
-    status === AppStatus.TALENT_SELECTION
+    status === AppStatus.TALENT_SELECTION ||
+    status === AppStatus.REPLAY
   ) {
     return null;
   }
@@ -347,6 +464,13 @@ const MainMenu: React.FC<MainMenuProps> = ({
         onChange={importMapJson}
         className="hidden"
       />
+      <input
+        ref={replayInputRef}
+        type="file"
+        accept=".json,application/json"
+        onChange={loadReplayFile}
+        className="hidden"
+      />
       <div className={`relative w-full overflow-hidden rounded-xl border border-green-500/50 bg-black/70 shadow-[0_0_50px_rgba(0,255,0,0.2)] backdrop-blur-sm ${isMapBrowserView ? 'max-w-6xl max-h-[calc(100vh-1.5rem)] md:max-h-[calc(100vh-2rem)]' : isPauseView ? 'max-w-sm' : 'max-w-md'} ${isMapBrowserView ? 'p-5 md:p-6' : isPauseView ? 'p-6' : 'p-8'}`}>
         <div
           className="absolute inset-0 opacity-20 pointer-events-none"
@@ -389,6 +513,14 @@ const MainMenu: React.FC<MainMenuProps> = ({
                   <div className="absolute inset-0 translate-y-full bg-cyan-400/10 transition-transform duration-300 group-hover:translate-y-0" />
                   Catalogue
                 </button>
+
+                <button
+                  onClick={() => replayInputRef.current?.click()}
+                  className="group relative overflow-hidden border border-fuchsia-500/50 bg-fuchsia-900/40 px-8 py-3 font-mono font-bold uppercase tracking-widest text-fuchsia-300 transition-all duration-200 hover:border-fuchsia-400 hover:bg-fuchsia-600/20 hover:text-white"
+                >
+                  <div className="absolute inset-0 translate-y-full bg-fuchsia-400/10 transition-transform duration-300 group-hover:translate-y-0" />
+                  Replay
+                </button>
               </>
             )}
 
@@ -418,6 +550,14 @@ const MainMenu: React.FC<MainMenuProps> = ({
                   Multiplayer
                 </button>
 
+                <button
+                  onClick={() => setMenuView('SAVE_SLOTS')}
+                  className="group relative overflow-hidden border border-cyan-500/50 bg-cyan-900/40 px-8 py-3 font-mono font-bold uppercase tracking-widest text-cyan-400 transition-all duration-200 hover:border-cyan-400 hover:bg-cyan-600/20 hover:text-white"
+                >
+                  <div className="absolute inset-0 translate-y-full bg-cyan-400/10 transition-transform duration-300 group-hover:translate-y-0" />
+                  Load Game
+                </button>
+
                 <button
                   onClick={() => setMenuView('ROOT')}
                   className="group relative mt-2 overflow-hidden border border-gray-500/50 bg-gray-900/40 px-8 py-2 font-mono font-bold uppercase tracking-widest text-gray-400 transition-all duration-200 hover:border-gray-400 hover:bg-gray-600/20 hover:text-white"
@@ -427,6 +567,10 @@ const MainMenu: React.FC<MainMenuProps> = ({
               </>
             )}
 
+            {isTopLevelMenuStatus && menuView === 'SAVE_SLOTS' && (
+              <SaveSlotsPanel canSave={false} onBack={() => setMenuView('START')} />
+            )}
+
             {isTopLevelMenuStatus && (menuView === 'SOLO_MAPS' || menuView === 'DEV_MAPS') && (
               <div className="animate-fadeIn">
                 <div className="mb-4 text-center font-mono text-sm text-green-300">
@@ -472,6 +616,42 @@ const MainMenu: React.FC<MainMenuProps> = ({
                       )}
                     </div>
 
+                    {menuView === 'SOLO_MAPS' && soloOpponentSeats.length > 0 && (
+                      <div className="mt-4 rounded-xl border border-green-500/20 bg-green-950/10 p-3">
+                        <div className="mb-2 text-[10px] font-mono uppercase tracking-[0.22em] text-green-200/80">
+                          Seat Control
+                        </div>
+                        <div className="grid gap-2">
+                          {soloOpponentSeats.map((playerId) => (
+                            <div key={playerId} className="flex items-center gap-2">
+                              <span className="w-8 text-[11px] font-mono font-bold text-green-200">{playerId}</span>
+                              <div className="grid flex-1 grid-cols-4 gap-1">
+                                {SEAT_CONTROL_OPTIONS.map((option) => (
+                                  <button
+                                    key={option.label}
+                                    onClick={() => setSeatControl(playerId, option.value)}
+                                    className={`border px-1 py-1.5 text-[9px] font-mono font-bold uppercase tracking-[0.1em] transition-colors ${
+                                      (soloAiPlayers[playerId] || null) === option.value
+                                        ? 'border-green-300 bg-green-500/20 text-green-100'
+                                        : 'border-green-500/20 bg-black/30 text-green-300/70 hover:border-green-400/40'
+                                    }`}
+                                  >
+                                    {option.label}
+                                  </button>
+                                ))}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {menuView === 'SOLO_MAPS' && (
+                      <div className="mt-3">
+                        <MatchRulesPanel rules={soloMatchRules} onChange={setSoloMatchRules} accent="green" />
+                      </div>
+                    )}
+
                     {menuView === 'DEV_MAPS' && selectedDevMap === 'EMPTY' && (
                       <div className="mt-4 rounded-xl border border-yellow-500/20 bg-yellow-950/10 p-3">
                         <div className="mb-2 text-[10px] font-mono uppercase tracking-[0.22em] text-yellow-200/80">
@@ -689,6 +869,63 @@ const MainMenu: React.FC<MainMenuProps> = ({
                       </span>
                     </label>
 
+                    <div className="mt-3">
+                      <MatchRulesPanel
+                        rules={hasPendingLobby ? matchRules : matchRulesRequested}
+                        onChange={setMatchRulesRequested}
+                        disabled={hasPendingLobby}
+                        accent="purple"
+                      />
+                    </div>
+
+                    <label className={`mt-3 flex items-start gap-3 rounded-xl border px-3 py-3 text-left font-mono transition-colors ${
+                      hasPendingLobby
+                        ? 'border-purple-900/40 bg-purple-950/10 text-purple-200/45'
+                        : 'border-purple-500/30 bg-purple-950/15 text-purple-100'
+                    }`}>
+                      <input
+                        type="checkbox"
+                        checked={publicLobbyRequested}
+                        onChange={(e) => setPublicLobbyRequested(e.target.checked)}
+                        disabled={hasPendingLobby}
+                        className="mt-0.5 h-4 w-4 border-purple-500/40 bg-black/60 accent-purple-500 disabled:cursor-not-allowed"
+                      />
+                      <span className="flex-1 text-xs leading-relaxed">
+                        <span className="block text-[10px] uppercase tracking-[0.22em] text-purple-300/80">
+                          Public Lobby
+                        </span>
+                        <span>
+                          Lists the room in the lobby browser until it fills up, so players can join without the room code.
+                        </span>
+                      </span>
+                    </label>
+
+                    <div className={`mt-3 rounded-xl border px-3 py-3 font-mono ${
+                      hasPendingLobby
+                        ? 'border-purple-900/40 bg-purple-950/10 text-purple-200/45'
+                        : 'border-purple-500/30 bg-purple-950/15 text-purple-100'
+                    }`}>
+                      <div className="mb-2 text-[10px] uppercase tracking-[0.22em] text-purple-300/80">
+                        Spectator Delay
+                      </div>
+                      <div className="grid grid-cols-4 gap-1">
+                        {SPECTATOR_DELAY_OPTIONS.map((option) => (
+                          <button
+                            key={option.value}
+                            onClick={() => setSpectatorDelayRequested(option.value)}
+                            disabled={hasPendingLobby}
+                            className={`border px-1 py-1.5 text-[9px] font-bold uppercase tracking-[0.1em] transition-colors disabled:cursor-not-allowed ${
+                              spectatorDelayRequested === option.value
+                                ? 'border-purple-300 bg-purple-500/20 text-purple-100'
+                                : 'border-purple-500/20 bg-black/30 text-purple-300/70 hover:border-purple-400/40'
+                            }`}
+                          >
+                            {option.label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
                     <div className="mt-4 rounded-xl border border-purple-500/30 bg-purple-950/15 px-3 py-3 text-center text-xs font-mono text-purple-100">
                       Room Code:{' '}
                       <span className="font-bold tracking-widest text-purple-300">
@@ -701,7 +938,7 @@ const MainMenu: React.FC<MainMenuProps> = ({
                         type="text"
                         value={roomCodeInput}
                         onChange={(e) => setRoomCodeInput(e.target.value.toUpperCase())}
-                        placeholder="ENTER ROOM CODE"
+                        placeholder="ROOM OR REJOIN CODE"
                         disabled={hasPendingLobby}
                         className="w-2/3 border border-purple-500/30 bg-black/50 p-3 text-center font-mono uppercase text-purple-300 outline-none focus:border-purple-500 disabled:cursor-not-allowed disabled:opacity-40"
                       />
@@ -714,6 +951,32 @@ const MainMenu: React.FC<MainMenuProps> = ({
                       </button>
                     </div>
 
+                    <div className="mt-2 flex gap-2">
+                      <div className="grid w-2/3 grid-cols-5 gap-1">
+                        {SPECTATOR_PERSPECTIVES.map((perspective) => (
+                          <button
+                            key={perspective}
+                            onClick={() => setWatchPerspective(perspective)}
+                            disabled={hasPendingLobby}
+                            className={`border px-1 py-1.5 font-mono text-[9px] font-bold uppercase tracking-[0.1em] transition-colors disabled:cursor-not-allowed disabled:opacity-40 ${
+                              watchPerspective === perspective
+                                ? 'border-purple-300 bg-purple-500/20 text-purple-100'
+                                : 'border-purple-500/20 bg-black/30 text-purple-300/70 hover:border-purple-400/40'
+                            }`}
+                          >
+                            {perspective}
+                          </button>
+                        ))}
+                      </div>
+                      <button
+                        onClick={watchRoom}
+                        disabled={hasPendingLobby}
+                        className="w-1/3 border border-purple-500/30 bg-black/40 font-mono text-xs font-bold text-purple-300/80 transition-colors hover:border-purple-400 hover:bg-purple-600/20 hover:text-white disabled:cursor-not-allowed disabled:opacity-40"
+                      >
+                        WATCH
+                      </button>
+                    </div>
+
                     {hasPendingLobby ? (
                       <button
                         onClick={onAbortToMenu}
@@ -777,8 +1040,97 @@ const MainMenu: React.FC<MainMenuProps> = ({
                           Fog of war disabled for all players
                         </div>
                       )}
+                      {hasPendingLobby && !areDefaultMatchRules(matchRules) && (
+                        <div className="mt-2 text-[11px] font-mono uppercase tracking-[0.18em] text-purple-200/80">
+                          Custom match rules
+                        </div>
+                      )}
+                      {hasPendingLobby && spectatorPerspective && (
+                        <div className="mt-2 text-[11px] font-mono uppercase tracking-[0.18em] text-purple-200/80">
+                          Watching {spectatorPerspective === 'ALL' ? 'with full vision' : `as ${spectatorPerspective}`}
+                        </div>
+                      )}
                     </div>
 
+                    {isLobbyBrowserOpen && (
+                      <div className="mb-4 rounded-xl border border-purple-500/30 bg-purple-950/15 p-4">
+                        <div className="flex items-center justify-between gap-3">
+                          <div className="text-[10px] font-mono uppercase tracking-[0.3em] text-purple-300/80">
+                            Public Lobbies
+                          </div>
+                          <div className="text-[10px] font-mono uppercase tracking-[0.2em] text-purple-100/60">
+                            {filteredPublicLobbies.length} / {publicLobbies.length}
+                          </div>
+                        </div>
+
+                        <div className="mt-3 flex flex-wrap gap-1">
+                          {LOBBY_PLAYER_FILTERS.map((count) => (
+                            <button
+                              key={count ?? 'any'}
+                              onClick={() => setLobbyPlayerFilter(count)}
+                              className={`border px-2 py-1 text-[9px] font-mono font-bold uppercase tracking-[0.1em] transition-colors ${
+                                lobbyPlayerFilter === count
+                                  ? 'border-purple-300 bg-purple-500/20 text-purple-100'
+                                  : 'border-purple-500/20 bg-black/30 text-purple-300/70 hover:border-purple-400/40'
+                              }`}
+                            >
+                              {count ? `${count}P` : 'Any Size'}
+                            </button>
+                          ))}
+                        </div>
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          {LOBBY_MODE_FILTERS.map((mode) => (
+                            <button
+                              key={mode ?? 'any'}
+                              onClick={() => setLobbyModeFilter(mode)}
+                              className={`border px-2 py-1 text-[9px] font-mono font-bold uppercase tracking-[0.1em] transition-colors ${
+                                lobbyModeFilter === mode
+                                  ? 'border-purple-300 bg-purple-500/20 text-purple-100'
+                                  : 'border-purple-500/20 bg-black/30 text-purple-300/70 hover:border-purple-400/40'
+                              }`}
+                            >
+                              {mode ? getModeLabel(mode) : 'Any Mode'}
+                            </button>
+                          ))}
+                        </div>
+
+                        <div className="mt-3 max-h-48 space-y-2 overflow-y-auto game-scrollbar pr-1">
+                          {filteredPublicLobbies.length === 0 && (
+                            <div className="text-xs font-mono text-purple-200/50">
+                              {publicLobbies.length === 0 ? 'No public lobbies open right now.' : 'No public lobbies match these filters.'}
+                            </div>
+                          )}
+                          {filteredPublicLobbies.map((listing) => (
+                            <div key={listing.roomId} className="flex items-center gap-3 border border-purple-500/20 bg-black/30 px-3 py-2 font-mono">
+                              <div className="min-w-0 flex-1">
+                                <div className="truncate text-xs font-bold uppercase tracking-[0.12em] text-white">
+                                  {listing.mapId} <span className="text-purple-300/70">{listing.roomId}</span>
+                                </div>
+                                <div className="mt-1 text-[10px] uppercase tracking-[0.14em] text-purple-200/70">
+                                  {getModeLabel(listing.matchMode)} | {listing.playerCount}/{listing.maxPlayers}
+                                  {listing.hostAdminEnabled ? ' | Host Admin' : ''}
+                                  {listing.fogOfWarDisabled ? ' | No Fog' : ''}
+                                  {listing.spectatorDelayMs > 0 ? ` | ${Math.round(listing.spectatorDelayMs / 1000)}s Delay` : ''}
+                                </div>
+                              </div>
+                              <button
+                                onClick={() => gameService.joinLobby(listing.roomId)}
+                                className="border border-purple-500/50 bg-purple-900/40 px-3 py-1.5 text-[10px] font-bold text-purple-300 transition-colors hover:border-purple-400 hover:bg-purple-600/20 hover:text-white"
+                              >
+                                JOIN
+                              </button>
+                              <button
+                                onClick={() => gameService.spectateLobby(listing.roomId, watchPerspective)}
+                                className="border border-purple-500/30 bg-black/40 px-3 py-1.5 text-[10px] font-bold text-purple-300/80 transition-colors hover:border-purple-400 hover:bg-purple-600/20 hover:text-white"
+                              >
+                                WATCH
+                              </button>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     <div className="flex-1">
                       <MapPreview3D preview={selectedPreview} />
                     </div>
@@ -787,7 +1139,11 @@ const MainMenu: React.FC<MainMenuProps> = ({
               </div>
             )}
 
-            {status === AppStatus.PAUSED && (
+            {status === AppStatus.PAUSED && isSaveSlotsOpen && (
+              <SaveSlotsPanel canSave={!isMultiplayer} onBack={() => setIsSaveSlotsOpen(false)} />
+            )}
+
+            {status === AppStatus.PAUSED && !isSaveSlotsOpen && (
               <>
                 <button
                   onClick={onResume}
@@ -804,6 +1160,22 @@ const MainMenu: React.FC<MainMenuProps> = ({
                   </div>
                 )}
 
+                {isMultiplayer && isLobbyHost && disconnectedPlayerIds.map((playerId) => (
+                  <div key={playerId} className="flex max-w-md flex-col items-center gap-1">
+                    <button
+                      onClick={() => gameService.reissueSeatCode(playerId)}
+                      className="border border-amber-500/40 bg-black/40 px-4 py-2 font-mono text-[10px] font-bold uppercase tracking-widest text-amber-300 transition-colors hover:border-amber-300 hover:text-white"
+                    >
+                      Reissue {playerId} Rejoin Code
+                    </button>
+                    {seatRejoinCodes[playerId] && (
+                      <div className="select-all break-all text-center font-mono text-[10px] text-amber-100">
+                        {seatRejoinCodes[playerId]}
+                      </div>
+                    )}
+                  </div>
+                ))}
+
                 {canRestartCurrentMap && (
                   <button
                     onClick={onRestartCurrentMap}
@@ -814,6 +1186,26 @@ const MainMenu: React.FC<MainMenuProps> = ({
                   </button>
                 )}
 
+                {!isMultiplayer && (
+                  <button
+                    onClick={() => setIsSaveSlotsOpen(true)}
+                    className="group relative overflow-hidden border border-green-500/50 bg-green-900/40 px-8 py-3 font-mono font-bold uppercase tracking-widest text-green-400 transition-all duration-200 hover:border-green-400 hover:bg-green-600/20 hover:text-white"
+                  >
+                    <div className="absolute inset-0 translate-y-full bg-green-400/10 transition-transform duration-300 group-hover:translate-y-0" />
+                    Save / Load
+                  </button>
+                )}
+
+                {isMultiplayer && (
+                  <button
+                    onClick={() => gameService.downloadReplay()}
+                    className="group relative overflow-hidden border border-fuchsia-500/50 bg-fuchsia-900/40 px-8 py-3 font-mono font-bold uppercase tracking-widest text-fuchsia-300 transition-all duration-200 hover:border-fuchsia-400 hover:bg-fuchsia-600/20 hover:text-white"
+                  >
+                    <div className="absolute inset-0 translate-y-full bg-fuchsia-400/10 transition-transform duration-300 group-hover:translate-y-0" />
+                    Download Replay
+                  </button>
+                )}
+
                 <button
                   onClick={onAbortToMenu}
                   className="group relative overflow-hidden border border-red-500/50 bg-red-900/40 px-8 py-3 font-mono font-bold uppercase tracking-widest text-red-400 transition-all duration-200 hover:border-red-400 hover:bg-red-600/20 hover:text-white"
@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { MatchRules } from '../types';
+import { areDefaultMatchRules, createDefaultMatchRules, MATCH_RULE_LIMITS, normalizeMatchRules, parseDeliveryRounds } from '../utils/matchRules';
+
+type NumericMatchRule = keyof typeof MATCH_RULE_LIMITS;
+
+interface MatchRulesPanelProps {
+  rules: MatchRules;
+  onChange: (rules: MatchRules) => void;
+  disabled?: boolean;
+  accent: 'green' | 'purple';
+}
+
+const NUMERIC_RULE_FIELDS: Array<{ rule: NumericMatchRule; label: string }> = [
+  { rule: 'initialCredits', label: 'Start Credits' },
+  { rule: 'incomePerTurn', label: 'Income / Turn' },
+  { rule: 'turnTimerSeconds', label: 'Turn Seconds' },
+  { rule: 'maxInventoryCapacity', label: 'Inventory Cap' },
+  { rule: 'talentSelectionLevelStep', label: 'Talent Every' }
+];
+
+const ACCENT_CLASSES = {
+  green: {
+    panel: 'border-green-500/20 bg-green-950/10',
+    title: 'text-green-200/80',
+    label: 'text-green-300/70',
+    input: 'border-green-500/30 text-green-200 focus:border-green-400',
+    reset: 'border-green-500/30 text-green-300/80 hover:border-green-400 hover:text-green-100'
+  },
+  purple: {
+    panel: 'border-purple-500/30 bg-purple-950/15',
+    title: 'text-purple-300/80',
+    label: 'text-purple-300/70',
+    input: 'border-purple-500/30 text-purple-100 focus:border-purple-400',
+    reset: 'border-purple-500/30 text-purple-300/80 hover:border-purple-400 hover:text-purple-100'
+  }
+};
+
+const formatRuleDrafts = (rules: MatchRules): Record<NumericMatchRule | 'deliveryRounds', string> => ({
+  initialCredits: String(rules.initialCredits),
+  incomePerTurn: String(rules.incomePerTurn),
+  turnTimerSeconds: String(rules.turnTimerSeconds),
+  maxInventoryCapacity: String(rules.maxInventoryCapacity),
+  talentSelectionLevelStep: String(rules.talentSelectionLevelStep),
+  deliveryRounds: rules.deliveryRounds.join(', ')
+});
+
+// Inputs keep their raw text while focused and commit on blur, so typing "150" is not clamped at "1".
+const MatchRulesPanel: React.FC<MatchRulesPanelProps> = ({ rules, onChange, disabled = false, accent }) => {
+  const [drafts, setDrafts] = useState(() => formatRuleDrafts(rules));
+  const classes = ACCENT_CLASSES[accent];
+
+  useEffect(() => {
+    setDrafts(formatRuleDrafts(rules));
+  }, [rules]);
+
+  const commitNumericRule = (rule: NumericMatchRule) => {
+    const value = Number(drafts[rule]);
+    const next = normalizeMatchRules({ ...rules, [rule]: Number.isFinite(value) && drafts[rule].trim() ? value : rules[rule] });
+    setDrafts(formatRuleDrafts(next));
+    onChange(next);
+  };
+
+  const commitDeliveryRounds = () => {
+    const next = normalizeMatchRules({ ...rules, deliveryRounds: parseDeliveryRounds(drafts.deliveryRounds) });
+    setDrafts(formatRuleDrafts(next));
+    onChange(next);
+  };
+
+  return (
+    <div className={`rounded-xl border p-3 font-mono ${classes.panel} ${disabled ? 'opacity-60' : ''}`}>
+      <div className="mb-2 flex items-center justify-between gap-2">
+        <span className={`text-[10px] uppercase tracking-[0.22em] ${classes.title}`}>Match Rules</span>
+        <button
+          onClick={() => onChange(createDefaultMatchRules())}
+          disabled={disabled || areDefaultMatchRules(rules)}
+          className={`border bg-black/30 px-2 py-0.5 text-[9px] font-bold uppercase tracking-[0.1em] transition-colors disabled:cursor-not-allowed disabled:opacity-40 ${classes.reset}`}
+        >
+          Defaults
+        </button>
+      </div>
+      <div className="grid grid-cols-2 gap-x-3 gap-y-2">
+        {NUMERIC_RULE_FIELDS.map(({ rule, label }) => (
+          <label key={rule} className="flex items-center justify-between gap-2">
+            <span className={`text-[9px] uppercase tracking-[0.12em] ${classes.label}`}>{label}</span>
+            <input
+              type="number"
+              min={MATCH_RULE_LIMITS[rule].min}
+              max={MATCH_RULE_LIMITS[rule].max}
+              value={drafts[rule]}
+              onChange={(e) => setDrafts((prev) => ({ ...prev, [rule]: e.target.value }))}
+              onBlur={() => commitNumericRule(rule)}
+              disabled={disabled}
+              className={`w-16 border bg-black/50 px-1 py-1 text-center text-[11px] outline-none disabled:cursor-not-allowed ${classes.input}`}
+            />
+          </label>
+        ))}
+        <label className="col-span-2 flex items-center justify-between gap-2">
+          <span className={`text-[9px] uppercase tracking-[0.12em] ${classes.label}`}>Delivery Rounds</span>
+          <input
+            type="text"
+            value={drafts.deliveryRounds}
+            onChange={(e) => setDrafts((prev) => ({ ...prev, deliveryRounds: e.target.value }))}
+            onBlur={commitDeliveryRounds}
+            disabled={disabled}
+            className={`min-w-0 flex-1 border bg-black/50 px-2 py-1 text-center text-[11px] outline-none disabled:cursor-not-allowed ${classes.input}`}
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default MatchRulesPanel;
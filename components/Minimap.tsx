@@ -1,7 +1,7 @@
 
 import React, { useEffect, useRef, useState, useMemo } from 'react';
 import { createPortal } from 'react-dom';
-import { Unit, PlayerId, TerrainData, MapBounds } from '../types';
+import { Unit, PlayerId, TerrainData, MapBounds, TilePing } from '../types';
 import { COLORS, CARD_CONFIG } from '../constants';
 
 interface MinimapProps {
@@ -9,9 +9,17 @@ interface MinimapProps {
     revealedTiles: string[];
     terrain: Record<string, TerrainData>;
     mapBounds: MapBounds;
+    pings?: TilePing[];
 }
 
-const Minimap: React.FC<MinimapProps> = ({ units, revealedTiles, terrain, mapBounds }) => {
+const PING_COLORS: Partial<Record<PlayerId, string>> = {
+    [PlayerId.ONE]: COLORS.P1,
+    [PlayerId.TWO]: COLORS.P2,
+    [PlayerId.THREE]: COLORS.P3,
+    [PlayerId.FOUR]: COLORS.P4
+};
+
+const Minimap: React.FC<MinimapProps> = ({ units, revealedTiles, terrain, mapBounds, pings = [] }) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const [isMinimized, setIsMinimized] = useState(true);
     const [zoom, setZoom] = useState(6); // Pixels per tile
@@ -86,7 +94,18 @@ const Minimap: React.FC<MinimapProps> = ({ units, revealedTiles, terrain, mapBou
             ctx.fillRect((drawX * zoom) + pad, (drawZ * zoom) + pad, (size * zoom) - pad * 2, (size * zoom) - pad * 2);
         });
 
-    }, [units, revealedTiles, zoom, revealedSet, terrain, mapBounds]);
+        // Draw Ally Pings (on top of everything, fogged tiles included)
+        pings.forEach(ping => {
+            const centerX = (ping.x - mapBounds.originX + 0.5) * zoom;
+            const centerZ = (ping.z - mapBounds.originZ + 0.5) * zoom;
+            ctx.strokeStyle = PING_COLORS[ping.playerId] || '#ffffff';
+            ctx.lineWidth = 2;
+            ctx.beginPath();
+            ctx.arc(centerX, centerZ, Math.max(4, zoom * 1.5), 0, Math.PI * 2);
+            ctx.stroke();
+        });
+
+    }, [units, revealedTiles, zoom, revealedSet, terrain, mapBounds, pings]);
 
     const handleZoom = (delta: number) => {
         setZoom(prev => Math.max(2, Math.min(12, prev + delta)));
@@ -0,0 +1,100 @@
+import React from 'react';
+import { ReplayViewState } from '../types';
+
+const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+interface ReplayControlsProps {
+  replay: ReplayViewState;
+  onTogglePlayback: () => void;
+  onStep: () => void;
+  onSeekToTurn: (checkpointIndex: number) => void;
+  onSetSpeed: (speed: number) => void;
+  onExit: () => void;
+}
+
+const ReplayControls: React.FC<ReplayControlsProps> = ({
+  replay,
+  onTogglePlayback,
+  onStep,
+  onSeekToTurn,
+  onSetSpeed,
+  onExit
+}) => {
+  const isAtEnd = replay.cursor >= replay.totalCommands;
+  const progress = replay.totalCommands > 0 ? (replay.cursor / replay.totalCommands) * 100 : 100;
+
+  return (
+    <div className="absolute bottom-6 left-1/2 z-20 w-full max-w-2xl -translate-x-1/2 px-4 pointer-events-auto">
+      <div className="rounded-2xl border border-cyan-500/50 bg-black/80 p-4 font-mono shadow-[0_0_25px_rgba(34,211,238,0.15)] backdrop-blur-md">
+        <div className="mb-3 flex items-center justify-between gap-4">
+          <div>
+            <div className="text-[10px] font-bold uppercase tracking-[0.3em] text-cyan-500/70">Replay</div>
+            <div className="text-sm font-bold uppercase tracking-widest text-white">
+              {replay.roomId} <span className="text-cyan-300">[{replay.mapId}]</span>
+            </div>
+          </div>
+          <div className="text-[10px] uppercase tracking-widest text-gray-400">
+            Command <span className="text-white">{replay.cursor}</span> / {replay.totalCommands}
+          </div>
+        </div>
+
+        <div className="mb-3 h-1.5 w-full overflow-hidden rounded-full bg-gray-800">
+          <div className="h-full bg-cyan-400 transition-all duration-300" style={{ width: `${progress}%` }} />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={onTogglePlayback}
+            className="rounded border border-cyan-500/60 bg-cyan-900/30 px-4 py-1.5 text-[10px] font-bold uppercase tracking-widest text-cyan-200 transition-colors hover:bg-cyan-500/20 hover:text-white"
+          >
+            {replay.isPlaying ? 'Pause' : (isAtEnd ? 'Restart' : 'Play')}
+          </button>
+          <button
+            onClick={onStep}
+            disabled={isAtEnd}
+            className="rounded border border-gray-600 bg-black/50 px-4 py-1.5 text-[10px] font-bold uppercase tracking-widest text-gray-200 transition-colors hover:border-gray-400 hover:text-white disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            Step
+          </button>
+
+          <select
+            value={replay.activeTurnIndex}
+            onChange={(e) => onSeekToTurn(Number(e.target.value))}
+            className="rounded border border-gray-600 bg-black/70 px-2 py-1.5 text-[10px] font-bold uppercase tracking-widest text-gray-200 outline-none focus:border-cyan-400"
+          >
+            {replay.turns.map((turn) => (
+              <option key={turn.checkpointIndex} value={turn.checkpointIndex}>
+                Round {turn.roundNumber} - {turn.currentTurn}
+              </option>
+            ))}
+          </select>
+
+          <div className="flex items-center gap-1">
+            {REPLAY_SPEEDS.map((speed) => (
+              <button
+                key={speed}
+                onClick={() => onSetSpeed(speed)}
+                className={`rounded border px-2 py-1.5 text-[10px] font-bold tracking-widest transition-colors ${
+                  replay.speed === speed
+                    ? 'border-cyan-400/60 bg-cyan-500/15 text-cyan-100'
+                    : 'border-gray-700 bg-black/40 text-gray-400 hover:border-gray-500'
+                }`}
+              >
+                {speed}x
+              </button>
+            ))}
+          </div>
+
+          <button
+            onClick={onExit}
+            className="ml-auto rounded border border-red-500/50 bg-red-900/20 px-4 py-1.5 text-[10px] font-bold uppercase tracking-widest text-red-300 transition-colors hover:bg-red-500/20 hover:text-white"
+          >
+            Exit
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayControls;
@@ -129,7 +129,8 @@ const sections: RuleSection[] = [
     accent: 'from-zinc-300/20 to-zinc-500/10 border-zinc-300/30 text-zinc-100',
     bullets: [
       'Neutral creeps are map-controlled units and do not belong to any player side.',
-      'During the neutral phase, they attack the closest eligible non-neutral target they can legally hit.',
+      'During the neutral phase, they attack the closest eligible non-neutral target they can legally hit, answering whoever damaged them last first.',
+      'Maps can give a creep a behavior: guards chase intruders inside a leash around their post and walk back once it is clear, patrols walk a waypoint loop, retaliators hunt down their last attacker, and passive creeps hold fire until provoked.',
       'They do not treat other neutral units as enemies.',
       'Some neutral units can run additional scripted behaviors after their normal attack routine.'
     ]
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { gameService } from '../services/gameService';
+
+interface SaveSlotsPanelProps {
+  canSave: boolean;
+  onBack: () => void;
+}
+
+const formatSavedAt = (savedAt: number) => new Date(savedAt).toLocaleString('en-US', {
+  month: 'short',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  hour12: false
+});
+
+const SaveSlotsPanel: React.FC<SaveSlotsPanelProps> = ({ canSave, onBack }) => {
+  const [message, setMessage] = useState<string | null>(null);
+  const slots = gameService.listSaveSlots();
+
+  const runSlotAction = (action: () => void, successMessage: string | null) => {
+    try {
+      action();
+      setMessage(successMessage);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Save slot operation failed.');
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 font-mono">
+      <div className="text-center text-sm text-green-300">
+        {canSave ? 'SAVE / LOAD MATCH' : 'LOAD MATCH'}
+      </div>
+
+      {slots.map((summary, slot) => (
+        <div key={slot} className="rounded-lg border border-green-500/30 bg-black/40 p-3">
+          <div className="mb-2 flex items-center justify-between gap-2">
+            <span className="text-[11px] font-bold uppercase tracking-widest text-green-400">Slot {slot + 1}</span>
+            {summary ? (
+              <span className="text-[10px] uppercase tracking-wider text-gray-400">{formatSavedAt(summary.savedAt)}</span>
+            ) : (
+              <span className="text-[10px] uppercase tracking-wider text-gray-600">Empty</span>
+            )}
+          </div>
+
+          {summary && (
+            <div className="mb-2 text-[11px] uppercase tracking-wider text-gray-300">
+              {summary.mapId} | Round {summary.roundNumber}{summary.isDevMode ? ' | Dev' : ''}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            {canSave && (
+              <button
+                onClick={() => runSlotAction(() => gameService.saveGameToSlot(slot), `Saved to slot ${slot + 1}.`)}
+                className="flex-1 rounded border border-cyan-500/50 bg-cyan-900/30 px-2 py-1.5 text-[10px] font-bold uppercase tracking-widest text-cyan-300 transition-colors hover:bg-cyan-500/20 hover:text-white"
+              >
+                {summary ? 'Overwrite' : 'Save'}
+              </button>
+            )}
+            <button
+              onClick={() => runSlotAction(() => {
+                gameService.loadGameFromSlot(slot);
+                onBack();
+              }, null)}
+              disabled={!summary}
+              className="flex-1 rounded border border-green-500/50 bg-green-900/30 px-2 py-1.5 text-[10px] font-bold uppercase tracking-widest text-green-300 transition-colors hover:bg-green-500/20 hover:text-white disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              Load
+            </button>
+            <button
+              onClick={() => runSlotAction(() => gameService.deleteSaveSlot(slot), `Slot ${slot + 1} cleared.`)}
+              disabled={!summary}
+              className="rounded border border-red-500/40 bg-red-900/20 px-2 py-1.5 text-[10px] font-bold uppercase tracking-widest text-red-300 transition-colors hover:bg-red-500/20 hover:text-white disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {message && (
+        <div className="text-center text-[11px] uppercase tracking-[0.18em] text-amber-300/85">{message}</div>
+      )}
+
+      <button
+        onClick={onBack}
+        className="group relative mt-2 overflow-hidden border border-gray-500/50 bg-gray-900/40 px-8 py-2 font-mono font-bold uppercase tracking-widest text-gray-400 transition-all duration-200 hover:border-gray-400 hover:bg-gray-600/20 hover:text-white"
+      >
+        &lt; Back
+      </button>
+    </div>
+  );
+};
+
+export default SaveSlotsPanel;
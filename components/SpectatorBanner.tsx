@@ -0,0 +1,61 @@
+import React from 'react';
+import { PlayerId, SpectatorPerspective } from '../types';
+
+interface SpectatorBannerProps {
+  roomId: string | null;
+  perspective: SpectatorPerspective;
+  playerIds: PlayerId[];
+  delayMs: number;
+  onSetPerspective: (perspective: SpectatorPerspective) => void;
+  onLeave: () => void;
+}
+
+const SpectatorBanner: React.FC<SpectatorBannerProps> = ({
+  roomId,
+  perspective,
+  playerIds,
+  delayMs,
+  onSetPerspective,
+  onLeave
+}) => {
+  const perspectives: SpectatorPerspective[] = ['ALL', ...playerIds];
+
+  return (
+    <div className="absolute bottom-6 left-1/2 z-20 -translate-x-1/2 px-4 pointer-events-auto">
+      <div className="flex flex-wrap items-center gap-3 rounded-2xl border border-purple-500/50 bg-black/80 px-4 py-3 font-mono shadow-[0_0_25px_rgba(168,85,247,0.15)] backdrop-blur-md">
+        <div>
+          <div className="text-[10px] font-bold uppercase tracking-[0.3em] text-purple-400/70">Spectating</div>
+          <div className="text-sm font-bold uppercase tracking-widest text-white">
+            {roomId || '----'}
+            <span className="ml-2 text-[10px] text-purple-300">{delayMs > 0 ? `${Math.round(delayMs / 1000)}s delay` : 'live'}</span>
+          </div>
+        </div>
+
+        <div className="flex gap-1">
+          {perspectives.map((option) => (
+            <button
+              key={option}
+              onClick={() => onSetPerspective(option)}
+              className={`rounded border px-3 py-1.5 text-[10px] font-bold uppercase tracking-widest transition-colors ${
+                perspective === option
+                  ? 'border-purple-300 bg-purple-500/20 text-purple-100'
+                  : 'border-gray-600 bg-black/50 text-gray-300 hover:border-gray-400 hover:text-white'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+
+        <button
+          onClick={onLeave}
+          className="rounded border border-red-500/60 bg-red-900/30 px-4 py-1.5 text-[10px] font-bold uppercase tracking-widest text-red-200 transition-colors hover:bg-red-500/20 hover:text-white"
+        >
+          Stop Watching
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SpectatorBanner;
@@ -11,7 +11,7 @@ interface TileProps {
     z: number;
     position: [number, number, number];
     terrain?: TerrainData;
-    onClick: (x: number, z: number, pointer?: { source: 'TILE'; eventType?: string; button?: number; pointerType?: string; clientX?: number; clientY?: number; }) => void;
+    onClick: (x: number, z: number, pointer?: { source: 'TILE'; eventType?: string; button?: number; pointerType?: string; clientX?: number; clientY?: number; altKey?: boolean; }) => void;
     isOccupied: boolean;
     onHover?: (x: number, z: number) => void;
     onHoverEnd?: (x: number, z: number) => void;
@@ -97,7 +97,8 @@ const Tile: React.FC<TileProps> = React.memo(({
             button: e.button,
             pointerType: e.pointerType,
             clientX: e.clientX,
-            clientY: e.clientY
+            clientY: e.clientY,
+            altKey: e.altKey
         });
     };
 
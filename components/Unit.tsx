@@ -944,7 +944,7 @@ const Unit: React.FC<UnitProps> = ({ data, isSelected, appStatus, showNameLabel,
                     <meshBasicMaterial color={playerColor} transparent opacity={0.6} side={THREE.DoubleSide} />
                 </mesh>
             )}
-            {!isDying && !isExploding && appStatus === AppStatus.PLAYING && (
+            {!isDying && !isExploding && (appStatus === AppStatus.PLAYING || appStatus === AppStatus.REPLAY) && (
                 <Html position={[0, size > 1 ? 2.8 : (data.type === EUnitType.TOWER ? 2.8 : 1.8), 0]} center distanceFactor={12} zIndexRange={[100, 0]}>
                     <div className="flex flex-col items-center pointer-events-none select-none">
                         {(showNameLabel || showLevelLabel) && (
@@ -1,5 +1,5 @@
 import React from 'react';
-import { AppStatus, PlayerId } from '../types';
+import { AppStatus, MatchSeries, PlayerId } from '../types';
 
 interface WinScreenProps {
   winner: PlayerId[] | null;
@@ -7,7 +7,13 @@ interface WinScreenProps {
   isDevMode: boolean;
   roundNumber: number;
   onRestartCurrentMap: () => void;
+  onDownloadReplay?: () => void;
   onAbortToMenu: () => void;
+  // Multiplayer seats only; replaces Play Again with the room's rematch vote.
+  matchSeries?: MatchSeries | null;
+  isLobbyHost?: boolean;
+  onRematchVote?: (accept: boolean) => void;
+  onRematchRotationChange?: (rotateTurnOrder: boolean) => void;
 }
 
 const WinScreen: React.FC<WinScreenProps> = ({
@@ -16,9 +22,18 @@ const WinScreen: React.FC<WinScreenProps> = ({
   isDevMode,
   roundNumber,
   onRestartCurrentMap,
-  onAbortToMenu
+  onDownloadReplay,
+  onAbortToMenu,
+  matchSeries = null,
+  isLobbyHost = false,
+  onRematchVote,
+  onRematchRotationChange
 }) => {
-  const canRestartCurrentMap = !isDevMode;
+  const canRestartCurrentMap = !isDevMode && !onRematchVote;
+  const hasAcceptedRematch = !!perspectivePlayerId && !!matchSeries?.acceptedPlayerIds.includes(perspectivePlayerId);
+  const seriesScores = matchSeries
+    ? (Object.entries(matchSeries.scores) as Array<[PlayerId, number]>)
+    : [];
   const isVictory = winner !== null && !!perspectivePlayerId && winner.includes(perspectivePlayerId);
   const title = isVictory ? 'Victory' : 'Defeat';
   const accentClass = isVictory
@@ -47,6 +62,24 @@ const WinScreen: React.FC<WinScreenProps> = ({
             : 'Match terminated.'}
         </div>
 
+        {matchSeries && (
+          <div className="mb-6 rounded-xl border border-neutral-800 bg-black/40 px-4 py-3">
+            <div className="text-[10px] font-bold uppercase tracking-[0.3em] text-neutral-500">Series - Match {matchSeries.matchNumber}</div>
+            <div className="mt-2 flex flex-wrap gap-3 font-mono text-sm text-neutral-200">
+              {seriesScores.map(([playerId, score]) => (
+                <span key={playerId} className={playerId === perspectivePlayerId ? 'font-bold text-white' : undefined}>
+                  {playerId} {score}
+                </span>
+              ))}
+            </div>
+            {matchSeries.waitingPlayerIds.length > 0 && matchSeries.acceptedPlayerIds.length > 0 && (
+              <div className="mt-2 text-[10px] font-mono uppercase tracking-[0.18em] text-amber-300/85">
+                Rematch waiting for {matchSeries.waitingPlayerIds.join(', ')}
+              </div>
+            )}
+          </div>
+        )}
+
         <div className="flex flex-col gap-3">
           {canRestartCurrentMap && (
             <button
@@ -57,6 +90,44 @@ const WinScreen: React.FC<WinScreenProps> = ({
             </button>
           )}
 
+          {onRematchVote && (
+            <button
+              onClick={() => onRematchVote(!hasAcceptedRematch)}
+              disabled={!matchSeries}
+              className={`rounded-xl border px-4 py-3 text-sm font-bold uppercase tracking-[0.22em] transition-colors disabled:cursor-not-allowed disabled:opacity-40 ${
+                hasAcceptedRematch
+                  ? 'border-amber-500/50 bg-amber-900/25 text-amber-300 hover:border-amber-400 hover:bg-amber-500/15 hover:text-white'
+                  : 'border-cyan-500/50 bg-cyan-900/25 text-cyan-300 hover:border-cyan-400 hover:bg-cyan-500/15 hover:text-white'
+              }`}
+            >
+              {hasAcceptedRematch ? 'Cancel Rematch' : 'Rematch'}
+            </button>
+          )}
+
+          {onRematchVote && matchSeries && (
+            isLobbyHost && onRematchRotationChange ? (
+              <button
+                onClick={() => onRematchRotationChange(!matchSeries.rotateTurnOrder)}
+                className="rounded-xl border border-neutral-700 bg-neutral-900/70 px-4 py-2 text-[11px] font-bold uppercase tracking-[0.2em] text-neutral-300 transition-colors hover:border-neutral-500 hover:text-white"
+              >
+                Rotate First Turn: {matchSeries.rotateTurnOrder ? 'On' : 'Off'} ({matchSeries.nextFirstPlayerId} starts)
+              </button>
+            ) : (
+              <div className="text-center text-[10px] font-mono uppercase tracking-[0.18em] text-neutral-500">
+                {matchSeries.nextFirstPlayerId} starts the rematch
+              </div>
+            )
+          )}
+
+          {onDownloadReplay && (
+            <button
+              onClick={onDownloadReplay}
+              className="rounded-xl border border-fuchsia-500/50 bg-fuchsia-900/25 px-4 py-3 text-sm font-bold uppercase tracking-[0.22em] text-fuchsia-300 transition-colors hover:border-fuchsia-400 hover:bg-fuchsia-500/15 hover:text-white"
+            >
+              Download Replay
+            </button>
+          )}
+
           <button
             onClick={onAbortToMenu}
             className="rounded-xl border border-neutral-700 bg-neutral-900/70 px-4 py-3 text-sm font-bold uppercase tracking-[0.22em] text-neutral-200 transition-colors hover:border-neutral-500 hover:bg-neutral-800 hover:text-white"
@@ -11,6 +11,7 @@ export const INITIAL_CREDITS = 500;
 export const MAX_INVENTORY_CAPACITY = 30;
 export const INCOME_PER_TURN = 20;
 export const TURN_TIMER_SECONDS = 60;
+export const DELIVERY_ROUNDS = [10, 25, 50, 100]; // Restock + supply injection on each, the shop closes on the last
 
 export const COLORS = {
   P1: '#00ccff', // Cyan for P1
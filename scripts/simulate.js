@@ -0,0 +1,164 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Headless bot-vs-bot balance runner. Run through `npm run simulate -- <options>`, which bundles
+// services/botMatchRunner.ts into dist-ssr/sim first.
+
+const RUNNER_PATH = path.join(__dirname, '../dist-ssr/sim/botMatchRunner.js');
+const PLAYER_IDS = ['P1', 'P2', 'P3', 'P4'];
+const DIFFICULTIES = ['EASY', 'NORMAL', 'HARD'];
+
+const USAGE = `Usage: npm run simulate -- --map <map id> [options]
+
+Options:
+  --map <id>             Map id from maps/ (e.g. "Refuge 2P")
+  --matches <n>          Number of matches to play (default 20)
+  --seed <n>             Seed of the first match; match i uses seed + i (default 1)
+  --difficulty <level>   EASY, NORMAL or HARD for every seat (default HARD)
+  --p1 .. --p4 <level>   Difficulty override for a single seat
+  --max-rounds <n>       Rounds before a match is scored as a draw (default 60)
+  --out <file>           Where to write the JSON report (default simulation-report.json)`;
+
+const fail = (message) => {
+    console.error(message);
+    console.error('');
+    console.error(USAGE);
+    process.exit(1);
+};
+
+const parseInteger = (name, value, min) => {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < min) {
+        fail(`--${name} must be an integer >= ${min}.`);
+    }
+    return parsed;
+};
+
+const parseDifficulty = (name, value) => {
+    const level = String(value || '').toUpperCase();
+    if (!DIFFICULTIES.includes(level)) {
+        fail(`--${name} must be one of ${DIFFICULTIES.join(', ')}.`);
+    }
+    return level;
+};
+
+const parseArgs = (argv) => {
+    const options = {
+        mapId: null,
+        matches: 20,
+        seed: 1,
+        difficulty: 'HARD',
+        seatDifficulties: {},
+        maxRounds: 60,
+        out: 'simulation-report.json'
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '--help' || arg === '-h') {
+            console.log(USAGE);
+            process.exit(0);
+        }
+        if (!arg.startsWith('--')) fail(`Unexpected argument "${arg}".`);
+
+        const name = arg.slice(2);
+        const value = argv[++i];
+        if (value === undefined) fail(`Missing value for ${arg}.`);
+
+        const seat = name.toUpperCase();
+        if (PLAYER_IDS.includes(seat)) {
+            options.seatDifficulties[seat] = parseDifficulty(name, value);
+            continue;
+        }
+
+        switch (name) {
+            case 'map': options.mapId = value; break;
+            case 'matches': options.matches = parseInteger(name, value, 1); break;
+            case 'seed': options.seed = parseInteger(name, value, 0); break;
+            case 'difficulty': options.difficulty = parseDifficulty(name, value); break;
+            case 'max-rounds': options.maxRounds = parseInteger(name, value, 1); break;
+            case 'out': options.out = value; break;
+            default: fail(`Unknown option ${arg}.`);
+        }
+    }
+
+    if (!options.mapId) fail('--map is required.');
+    return options;
+};
+
+const formatPercent = (value) => `${(value * 100).toFixed(1)}%`;
+
+const printSummary = (report) => {
+    console.log('');
+    console.log(`${report.mapId}: ${report.matches} matches, avg ${report.averageRounds.toFixed(1)} rounds, ${report.draws} draws, ${report.abandoned} abandoned`);
+
+    console.log('');
+    console.log('Slot  Difficulty  Wins  Win rate');
+    Object.entries(report.slots).forEach(([playerId, slot]) => {
+        console.log(`${playerId.padEnd(6)}${slot.difficulty.padEnd(12)}${String(slot.wins).padEnd(6)}${formatPercent(slot.winRate)}`);
+    });
+
+    console.log('');
+    console.log('Unit type                 Damage   Credits  Bought  Deployed');
+    Object.entries(report.unitTypes)
+        .sort(([, a], [, b]) => b.damageDealt - a.damageDealt)
+        .forEach(([unitType, stats]) => {
+            console.log(`${unitType.padEnd(26)}${String(stats.damageDealt).padEnd(9)}${String(stats.creditsSpent).padEnd(9)}${String(stats.purchased).padEnd(8)}${stats.deployed}`);
+        });
+
+    const talents = Object.entries(report.talents);
+    if (talents.length > 0) {
+        console.log('');
+        console.log('Talent                    Picks  Wins   Damage   Credits');
+        talents
+            .sort(([, a], [, b]) => b.picks - a.picks)
+            .forEach(([, stats]) => {
+                console.log(`${stats.name.padEnd(26)}${String(stats.picks).padEnd(7)}${String(stats.wins).padEnd(7)}${String(stats.damageDealt).padEnd(9)}${stats.creditsSpent}`);
+            });
+    }
+};
+
+const main = async () => {
+    const options = parseArgs(process.argv.slice(2));
+
+    if (!fs.existsSync(RUNNER_PATH)) {
+        fail('Simulation runner is not built. Use `npm run simulate` rather than calling this script directly.');
+    }
+    const { runBotMatches } = await import(pathToFileURL(RUNNER_PATH).href);
+
+    const difficulties = {};
+    PLAYER_IDS.forEach((playerId) => {
+        difficulties[playerId] = options.seatDifficulties[playerId] || options.difficulty;
+    });
+
+    const startedAt = Date.now();
+    const report = runBotMatches({
+        mapId: options.mapId,
+        matches: options.matches,
+        seed: options.seed,
+        difficulties,
+        maxRounds: options.maxRounds,
+        onMatchComplete: (result) => {
+            const outcome = result.winner
+                ? `${result.winner.join('+')} wins`
+                : (result.abandoned ? 'abandoned' : 'draw');
+            console.log(`Match ${result.index + 1}/${options.matches} (seed ${result.seed}): ${outcome} in ${result.rounds} rounds`);
+        }
+    });
+
+    printSummary(report);
+
+    const outPath = path.resolve(process.cwd(), options.out);
+    fs.writeFileSync(outPath, JSON.stringify(report, null, 2));
+    console.log('');
+    console.log(`Report written to ${outPath} (${((Date.now() - startedAt) / 1000).toFixed(1)}s)`);
+};
+
+main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+});
@@ -4,13 +4,70 @@ import { Server } from 'socket.io';
 import fs from 'fs';
 import path from 'path';
 import util from 'util';
-import { fileURLToPath } from 'url';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { createHash, randomInt, timingSafeEqual } from 'crypto';
+import {
+  SPECTATOR_FULL_VISION,
+  buildSpectatorView,
+  getDefaultSpectatorPerspective,
+  getSpectatorPerspectiveRejection,
+  normalizeSpectatorDelayMs
+} from './server/spectators.js';
+import { buildLogEntry, createLogFileWriter, formatLogValue } from './server/logging.js';
+import {
+  PLAYER_IDS,
+  PLAYER_ONE,
+  createEmptyCharacterSelections,
+  createPlayerSlots,
+  getConnectedSlots,
+  getDisconnectedSlots,
+  getJoinedSlots,
+  getLobbyPlayerIds,
+  getOpenSlots,
+  getPlayerIdForSocket,
+  getPlayerSlotByPlayerId,
+  getPlayerSlotBySocketId,
+  normalizeLobbyMatchMode
+} from './server/players.js';
+import { estimatePayloadBytes, takeCommandToken, validateCommandPayload } from './server/commandPayloads.js';
+import { issueSessionToken, normalizeJoinLobbyPayload, resolveJoinSlot } from './server/sessions.js';
+import {
+  buildRematchStatePayload,
+  formatSeriesScores,
+  getRematchTurnOrder,
+  isLobbyMatchOver,
+  isRematchAgreed,
+  recordSeriesResult
+} from './server/series.js';
+import {
+  createFileLobbyStore,
+  createMemoryLobbyStore,
+  isLobbyRecordSupported,
+  restoreLobbyFromRecord,
+  serializeLobby
+} from './server/lobbyStore.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-const logFilePath = path.join(__dirname, 'server.log');
-const logStream = fs.createWriteStream(logFilePath, { flags: 'a' });
+// Logging
+// Every console.* call is also appended to LOG_FILE as one JSON object per line. The `[AREA][EVENT] key=value`
+// tags used throughout this file become fields: room, socket, player, action and reason are on every line (null
+// when the message has none) and any other key=value pair goes into `data`. `msg` keeps the original text.
+// The file rotates to LOG_FILE.1 (newest) up to LOG_FILE.<LOG_MAX_FILES> once it would pass LOG_MAX_BYTES, and
+// with LOG_ROTATION=daily also on the first line of a new UTC day. Messages below LOG_LEVEL are dropped from both
+// the file and the terminal. Values that may contain spaces go through formatLogValue, which quotes them.
+// The file is written asynchronously by server/logging.js; when it fails, lines are dropped until a retry
+// succeeds, and /metrics reports it (neon_log_file_up, neon_log_write_failures_total).
+const LOG_LEVELS = { debug: 10, info: 20, warn: 30, error: 40 };
+const LOG_LEVEL = LOG_LEVELS[process.env.LOG_LEVEL] ? process.env.LOG_LEVEL : 'info';
+const LOG_FILE = path.resolve(__dirname, process.env.LOG_FILE || 'server.log');
+const LOG_ROTATION = process.env.LOG_ROTATION === 'daily' ? 'daily' : 'size';
+const parsedLogMaxBytes = Number.parseInt(process.env.LOG_MAX_BYTES ?? '', 10);
+const LOG_MAX_BYTES = parsedLogMaxBytes > 0 ? parsedLogMaxBytes : 10 * 1024 * 1024;
+const parsedLogMaxFiles = Number.parseInt(process.env.LOG_MAX_FILES ?? '', 10);
+const LOG_MAX_FILES = parsedLogMaxFiles >= 0 ? parsedLogMaxFiles : 5;
+
 const originalConsole = {
   log: console.log.bind(console),
   info: console.info.bind(console),
@@ -19,38 +76,50 @@ const originalConsole = {
   debug: console.debug.bind(console)
 };
 
-function writeLog(level, args) {
-  const timestamp = new Date().toISOString();
-  const message = util.format(...args);
-  const line = `[${timestamp}] [${level}] ${message}\n`;
-  logStream.write(line, (err) => {
-    if (err) {
-      originalConsole.error(`Failed to write server log: ${err.message}`);
-    }
-  });
+const logWriter = createLogFileWriter({
+  file: LOG_FILE,
+  rotation: LOG_ROTATION,
+  maxBytes: LOG_MAX_BYTES,
+  maxFiles: LOG_MAX_FILES,
+  // Keep the server up and the terminal output going; a broken log file should not take the match down.
+  onError: (err, retryAt) => {
+    originalConsole.error(`Failed to write server log ${LOG_FILE}: ${err.message} (retrying after ${new Date(retryAt).toISOString()})`);
+  }
+});
+
+function writeLog(level, message, event = null) {
+  const date = new Date();
+  const entry = buildLogEntry(level, message, date);
+  if (event) {
+    entry.area = entry.area || 'PROCESS';
+    entry.event = event;
+  }
+  logWriter.write(`${JSON.stringify(entry)}\n`, date);
 }
 
-['log', 'info', 'warn', 'error', 'debug'].forEach((method) => {
-  const level = method.toUpperCase();
+[
+  ['log', 'info'],
+  ['info', 'info'],
+  ['warn', 'warn'],
+  ['error', 'error'],
+  ['debug', 'debug']
+].forEach(([method, level]) => {
   const originalMethod = originalConsole[method];
   console[method] = (...args) => {
+    if (LOG_LEVELS[level] < LOG_LEVELS[LOG_LEVEL]) return;
     originalMethod(...args);
-    writeLog(level, args);
+    writeLog(level, util.format(...args));
   };
 });
 
 process.on('uncaughtException', (error) => {
   const details = error?.stack || String(error);
-  writeLog('UNCAUGHT_EXCEPTION', [details]);
+  writeLog('error', details, 'UNCAUGHT_EXCEPTION');
 });
 
 process.on('unhandledRejection', (reason) => {
   const details = reason?.stack || util.format(reason);
-  writeLog('UNHANDLED_REJECTION', [details]);
-});
-
-process.on('exit', () => {
-  logStream.end();
+  writeLog('error', details, 'UNHANDLED_REJECTION');
 });
 
 const app = express();
@@ -68,6 +137,15 @@ app.use(express.static(path.join(__dirname, 'dist')));
 
 app.get('/health', (req, res) => res.sendStatus(200));
 
+// Operations endpoints (see the Operations section further down). They are registered before the SPA
+// catch-all, which would otherwise answer their GETs with index.html.
+const ADMIN_API_KEY = process.env.ADMIN_API_KEY || '';
+const adminRouter = express.Router();
+app.get('/metrics', (req, res) => {
+  res.type('text/plain; version=0.0.4').send(renderMetrics());
+});
+app.use('/admin', requireAdminKey, adminRouter);
+
 // Catch-all for SPA
 app.use((req, res, next) => {
   // Skip if it feels like an API request or socket.io (though socket.io is handled by http server directly usually, but express middleware might see it)
@@ -81,39 +159,72 @@ app.use((req, res, next) => {
   }
 });
 
-// Game state in memory (for server-authoritative logic later)
-let gameState = {
-  // ... initial state
-};
+// Server-authoritative simulation: the rules engine is bundled into dist-ssr by `npm run build:server`.
+// Without the bundle (or with SERVER_AUTHORITY=off) rooms fall back to running rules on the host peer.
+const SIMULATION_MODULE_PATH = path.join(__dirname, 'dist-ssr', 'serverSimulation.js');
+const SERVER_AUTHORITY_ENABLED = process.env.SERVER_AUTHORITY !== 'off';
+
+async function loadServerSimulationModule() {
+  try {
+    const simulationModule = await import(pathToFileURL(SIMULATION_MODULE_PATH).href);
+    console.log(`[SIM][READY] module=${formatLogValue(SIMULATION_MODULE_PATH)}`);
+    return simulationModule;
+  } catch (error) {
+    console.warn(`[SIM][UNAVAILABLE] module=${formatLogValue(SIMULATION_MODULE_PATH)} reason=${formatLogValue(error.message)} fallback=peer_authority`);
+    console.warn('[SYNC][UNREDACTED] reason=simulation_module_missing fog_of_war=client_side_only');
+    return null;
+  }
+}
 
-function loadMapPlayerCounts() {
-  const counts = {};
+const serverSimulationModule = await loadServerSimulationModule();
+if (!SERVER_AUTHORITY_ENABLED) {
+  console.log('[SIM][DISABLED] reason=SERVER_AUTHORITY_off fallback=peer_authority');
+}
+const createServerSimulation = SERVER_AUTHORITY_ENABLED ? serverSimulationModule?.createServerSimulation || null : null;
+// Per-seat fog of war: also applied to snapshots relayed from a peer authority.
+const redactSyncStateForPlayer = serverSimulationModule?.redactSyncStateForPlayer || null;
+// Cues and relayed actions are filtered by the same per-seat view.
+const redactCueForViewer = serverSimulationModule?.redactCueForViewer || null;
+// Full-vision spectators still never get the PRNG state.
+const omitRandomState = serverSimulationModule?.omitRandomState || ((state) => state);
+// Without the module every snapshot goes out in full.
+const createSyncDelta = serverSimulationModule?.createSyncDelta || null;
+const applySyncDelta = serverSimulationModule?.applySyncDelta || null;
+const isSyncDeltaEmpty = serverSimulationModule?.isSyncDeltaEmpty || null;
+// Turn length shared with the client HUD and the solo timer.
+const TURN_TIMER_MS = (serverSimulationModule?.TURN_TIMER_SECONDS || 60) * 1000;
+// Host-set match rules (credits, income, turn length, ...). Without the module rooms play the default rules.
+const normalizeMatchRules = serverSimulationModule?.normalizeMatchRules || null;
+// Team chat and pings; without the module nobody counts as an ally except the sender.
+const arePlayersAlliedInMode = serverSimulationModule?.arePlayersAlliedInMode || ((matchMode, a, b) => a === b);
+
+function loadMapSummaries() {
+  const summaries = {};
   const mapsDir = path.join(__dirname, 'maps');
 
   if (!fs.existsSync(mapsDir)) {
-    return counts;
+    return summaries;
   }
 
   fs.readdirSync(mapsDir)
     .filter((fileName) => fileName.endsWith('.json'))
     .forEach((fileName) => {
+      const mapId = fileName.replace(/\.json$/i, '');
       try {
         const raw = fs.readFileSync(path.join(mapsDir, fileName), 'utf8');
         const parsed = JSON.parse(raw);
-        const mapId = fileName.replace(/\.json$/i, '');
-        const players = parsed?.players;
-        counts[mapId] = players === 3 || players === 4 ? players : 2;
+        const players = parsed?.players === 3 || parsed?.players === 4 ? parsed.players : 2;
+        summaries[mapId] = { players, mode: normalizeLobbyMatchMode(parsed?.mode, players) };
       } catch (error) {
-        const mapId = fileName.replace(/\.json$/i, '');
-        counts[mapId] = 2;
+        summaries[mapId] = { players: 2, mode: 'duel' };
       }
     });
 
-  return counts;
+  return summaries;
 }
 
 function getLobbyCapacity(mapId) {
-  const count = loadMapPlayerCounts()[mapId];
+  const count = loadMapSummaries()[mapId]?.players;
   return count === 3 || count === 4 ? count : 2;
 }
 
@@ -125,18 +236,19 @@ function getLobbyCapacityFromMapPayload(mapId, mapData) {
   return getLobbyCapacity(mapId);
 }
 
+function getLobbyMatchModeFromMapPayload(mapId, mapData, maxPlayers) {
+  return normalizeLobbyMatchMode(mapData?.mode ?? loadMapSummaries()[mapId]?.mode, maxPlayers);
+}
+
 // Lobby management
 // Keep stable player slots so transient socket disconnects do not destroy the room.
-const lobbies = {}; // { roomId: { playerSlots: [...], authorityPlayerId: string, authoritySocketId: string | null, gameState: any, mapId: string, currentTurn: string, turnOrder: string[], maxPlayers: number, started: boolean } }
+const lobbies = {}; // { roomId: { playerSlots: [...], authorityPlayerId: string, authoritySocketId: string | null, serverAuthority: boolean, simulation: object | null, gameState: any, mapId: string, currentTurn: string, turnOrder: string[], maxPlayers: number, started: boolean, spectators: { [socketId]: object }, spectatorDelayMs: number, isPublic: boolean, matchMode: string } }
 
-const PLAYER_ONE = 'P1';
-const PLAYER_TWO = 'P2';
-const PLAYER_THREE = 'P3';
-const PLAYER_FOUR = 'P4';
-const PLAYER_IDS = [PLAYER_ONE, PLAYER_TWO, PLAYER_THREE, PLAYER_FOUR];
 const METRIC_WINDOW_MS = 30000;
 const LARGE_SYNC_BYTES = 128 * 1024;
 const LARGE_ACTION_BYTES = 16 * 1024;
+const REPLAY_FORMAT = 'neon-tactics-replay';
+const REPLAY_VERSION = 1;
 
 const AUTHORITATIVE_ACTIONS = new Set([
   'SYNC_STATE',
@@ -157,6 +269,7 @@ const AUTHORITATIVE_ACTIONS = new Set([
   'DISPEL_TARGET',
   'MIND_CONTROL_TARGET',
   'MIND_CONTROL_BREAK',
+  'LOGISTICS_DELAY_EXECUTE',
   'SUMMON_ACTIVATE',
   'SUMMON_PLACE',
   'WALL_CHAIN_PLACE',
@@ -166,7 +279,6 @@ const AUTHORITATIVE_ACTIONS = new Set([
   'SHOP_BUY',
   'SHOP_REFUND',
   'SHOP_REROLL',
-  'TALENT_SELECTION_START',
   'TALENT_CHOOSE'
 ]);
 
@@ -188,6 +300,7 @@ const TURN_GATED_ACTIONS = new Set([
   'DISPEL_TARGET',
   'MIND_CONTROL_TARGET',
   'MIND_CONTROL_BREAK',
+  'LOGISTICS_DELAY_EXECUTE',
   'SUMMON_ACTIVATE',
   'SUMMON_PLACE',
   'WALL_CHAIN_PLACE',
@@ -197,7 +310,6 @@ const TURN_GATED_ACTIONS = new Set([
   'SHOP_BUY',
   'SHOP_REFUND',
   'SHOP_REROLL',
-  'TALENT_SELECTION_START',
   'TALENT_CHOOSE'
 ]);
 
@@ -205,15 +317,19 @@ const ACTIONS_WITH_EXPLICIT_PLAYER = new Set([
   'PLACE_UNIT',
   'ION_CANNON_STRIKE',
   'FORWARD_BASE_PLACE',
+  'LOGISTICS_DELAY_EXECUTE',
   'SUICIDE_PROTOCOL',
   'DRONE_DETONATE',
   'SHOP_BUY',
   'SHOP_REFUND',
   'SHOP_REROLL',
-  'TALENT_SELECTION_START',
   'TALENT_CHOOSE'
 ]);
 
+// Command payloads
+// Each authoritative action's payload is checked against its schema, and each socket spends tokens from a bucket
+// per kind ('command' or 'sync'). Both live in server/commandPayloads.js.
+
 function getNextTurn(currentTurn, turnOrder = PLAYER_IDS) {
   const currentIndex = turnOrder.indexOf(currentTurn);
   if (currentIndex === -1 || turnOrder.length === 0) {
@@ -222,14 +338,6 @@ function getNextTurn(currentTurn, turnOrder = PLAYER_IDS) {
   return turnOrder[(currentIndex + 1) % turnOrder.length];
 }
 
-function estimatePayloadBytes(payload) {
-  try {
-    return Buffer.byteLength(JSON.stringify(payload ?? null), 'utf8');
-  } catch (error) {
-    return -1;
-  }
-}
-
 function createMetricBucket() {
   return {
     events: 0,
@@ -239,12 +347,31 @@ function createMetricBucket() {
   };
 }
 
+// Process-wide totals behind /metrics. Unlike the per-room windows they are never reset, so scrapers can
+// treat them as counters.
+const serverMetrics = {
+  startedAt: Date.now(),
+  payloads: {
+    sync: createMetricBucket(),
+    auth: createMetricBucket(),
+    relay: createMetricBucket(),
+    fanout: createMetricBucket()
+  },
+  rejections: {}
+};
+
+function countRejection(kind, reason) {
+  const key = `${kind}:${reason}`;
+  serverMetrics.rejections[key] = (serverMetrics.rejections[key] || 0) + 1;
+}
+
 function createLobbyMetricsWindow() {
   return {
     startedAt: Date.now(),
     sync: createMetricBucket(),
     auth: createMetricBucket(),
-    relay: createMetricBucket()
+    relay: createMetricBucket(),
+    fanout: createMetricBucket()
   };
 }
 
@@ -284,7 +411,7 @@ function flushLobbyMetrics(roomId, lobby, reason = 'periodic') {
   const metrics = lobby?.metrics;
   if (!metrics) return;
 
-  const hasEvents = [metrics.sync, metrics.auth, metrics.relay].some((bucket) => bucket.events > 0);
+  const hasEvents = [metrics.sync, metrics.auth, metrics.relay, metrics.fanout].some((bucket) => bucket.events > 0);
   if (!hasEvents) {
     resetLobbyMetrics(lobby);
     return;
@@ -292,25 +419,30 @@ function flushLobbyMetrics(roomId, lobby, reason = 'periodic') {
 
   const durationMs = Date.now() - metrics.startedAt;
   console.log(
-    `[METRIC][WINDOW] room=${roomId} reason=${reason} durationMs=${durationMs} phase=${getLobbyPhase(lobby)} connected=${getConnectedSlots(lobby).length}/${getJoinedSlots(lobby).length} ${formatMetricBucket('sync', metrics.sync)} ${formatMetricBucket('auth', metrics.auth)} ${formatMetricBucket('relay', metrics.relay)}`
+    `[METRIC][WINDOW] room=${roomId} reason=${reason} durationMs=${durationMs} phase=${getLobbyPhase(lobby)} connected=${getConnectedSlots(lobby).length}/${getJoinedSlots(lobby).length} ${formatMetricBucket('sync', metrics.sync)} ${formatMetricBucket('auth', metrics.auth)} ${formatMetricBucket('relay', metrics.relay)} ${formatMetricBucket('fanout', metrics.fanout)}`
   );
   resetLobbyMetrics(lobby);
 }
 
-function recordLobbyMetric(roomId, lobby, channel, action, payload) {
-  const metrics = ensureLobbyMetrics(lobby);
-  const bucket = metrics[channel];
-  if (!bucket) return -1;
-
-  const bytes = estimatePayloadBytes(payload);
+function addToMetricBucket(bucket, action, bytes) {
   bucket.events += 1;
   if (bytes >= 0) {
     bucket.totalBytes += bytes;
     bucket.maxBytes = Math.max(bucket.maxBytes, bytes);
   }
   bucket.actions[action] = (bucket.actions[action] || 0) + 1;
+}
 
-  const largeThreshold = channel === 'sync' ? LARGE_SYNC_BYTES : LARGE_ACTION_BYTES;
+function recordLobbyMetric(roomId, lobby, channel, action, payload) {
+  const metrics = ensureLobbyMetrics(lobby);
+  const bucket = metrics[channel];
+  if (!bucket) return -1;
+
+  const bytes = estimatePayloadBytes(payload);
+  addToMetricBucket(bucket, action, bytes);
+  addToMetricBucket(serverMetrics.payloads[channel], action, bytes);
+
+  const largeThreshold = channel === 'sync' || channel === 'fanout' ? LARGE_SYNC_BYTES : LARGE_ACTION_BYTES;
   if (bytes >= largeThreshold) {
     console.warn(`[METRIC][LARGE_PAYLOAD] room=${roomId} channel=${channel} action=${action} bytes=${bytes}`);
   }
@@ -322,76 +454,132 @@ function recordLobbyMetric(roomId, lobby, channel, action, payload) {
   return bytes;
 }
 
-function createEmptyCharacterSelections() {
+// Replays: every accepted command plus a checkpoint of the replicated state at the start of each
+// turn. Viewers re-simulate between checkpoints (services/replayPlayer.ts).
+function createLobbyReplay(roomId, lobby) {
   return {
-    [PLAYER_ONE]: null,
-    [PLAYER_TWO]: null,
-    [PLAYER_THREE]: null,
-    [PLAYER_FOUR]: null,
-    NEUTRAL: null
+    format: REPLAY_FORMAT,
+    version: REPLAY_VERSION,
+    roomId,
+    mapId: lobby.mapId || 'MAP_1',
+    mapData: lobby.mapData || null,
+    turnOrder: [...lobby.turnOrder],
+    hostAdminEnabled: !!lobby.hostAdminEnabled,
+    fogOfWarDisabled: !!lobby.fogOfWarDisabled,
+    startedAt: Date.now(),
+    checkpoints: [],
+    commands: [],
+    lastTerrainJson: null
   };
 }
 
-function createPlayerSlots(turnOrder, initialSocketId) {
-  return turnOrder.map((playerId, index) => ({
-    playerId,
-    socketId: index === 0 ? initialSocketId : null,
-    connectionState: index === 0 ? 'connected' : 'open',
-    joinedAt: index === 0 ? Date.now() : null,
-    disconnectedAt: null,
-    lastSeenAt: index === 0 ? Date.now() : null
-  }));
-}
-
-function getPlayerSlotByPlayerId(lobby, playerId) {
-  return lobby.playerSlots.find((slot) => slot.playerId === playerId) || null;
-}
-
-function getPlayerSlotBySocketId(lobby, socketId) {
-  return lobby.playerSlots.find((slot) => slot.socketId === socketId) || null;
-}
-
-function getPlayerIdForSocket(lobby, socketId) {
-  return getPlayerSlotBySocketId(lobby, socketId)?.playerId || null;
+function recordReplayCommand(lobby, action, data, actorPlayerId, turnBefore) {
+  if (!lobby.replay) return;
+  lobby.replay.commands.push({
+    action,
+    data: data === undefined ? null : structuredClone(data),
+    meta: {
+      actorPlayerId,
+      turnBefore,
+      timestamp: Date.now()
+    }
+  });
 }
 
-function getConnectedSlots(lobby) {
-  return lobby.playerSlots.filter((slot) => slot.connectionState === 'connected' && !!slot.socketId);
-}
+function recordReplayCheckpoint(lobby) {
+  const state = lobby.gameState;
+  if (!lobby.replay || !state?.terrain) return;
+
+  const replay = lobby.replay;
+  const commandIndex = replay.commands.length;
+  const previous = replay.checkpoints[replay.checkpoints.length - 1];
+  if (previous && previous.turnCount === state.turnCount) {
+    // Syncs that land before the turn's first command (character lock-in, deliveries) refresh the checkpoint.
+    if (previous.commandIndex !== commandIndex) return;
+    replay.checkpoints.pop();
+    if (previous.state.terrain) {
+      replay.lastTerrainJson = null;
+    }
+  }
 
-function getDisconnectedSlots(lobby) {
-  return lobby.playerSlots.filter((slot) => slot.connectionState === 'disconnected');
-}
+  // The simulation edits terrain in place, so snapshot it; only checkpoints where it changed carry a copy.
+  const { terrain, ...rest } = state;
+  const snapshot = structuredClone(rest);
+  const terrainJson = JSON.stringify(terrain);
+  if (terrainJson !== replay.lastTerrainJson) {
+    snapshot.terrain = JSON.parse(terrainJson);
+    replay.lastTerrainJson = terrainJson;
+  }
 
-function getOpenSlots(lobby) {
-  return lobby.playerSlots.filter((slot) => slot.connectionState === 'open');
+  replay.checkpoints.push({
+    commandIndex,
+    turnCount: state.turnCount,
+    roundNumber: state.roundNumber,
+    currentTurn: state.currentTurn,
+    timestamp: Date.now(),
+    state: snapshot
+  });
 }
 
-function getJoinedSlots(lobby) {
-  return lobby.playerSlots.filter((slot) => slot.connectionState !== 'open');
+function buildReplayExport(lobby) {
+  const { lastTerrainJson, ...replay } = lobby.replay;
+  return {
+    ...replay,
+    playerCharacters: { ...(lobby.selectedCharacters || createEmptyCharacterSelections()) },
+    exportedAt: Date.now()
+  };
 }
 
-function getConnectedSocketIds(lobby) {
-  return getConnectedSlots(lobby)
-    .map((slot) => slot.socketId)
-    .filter(Boolean);
+// Room codes come from a seeded mulberry32 (same generator as utils/seededRandom.ts),
+// so setting ROOM_ID_SEED reproduces the same sequence of codes across server runs.
+const ROOM_ID_LENGTH = 4;
+const parsedRoomIdSeed = Number.parseInt(process.env.ROOM_ID_SEED ?? '', 10);
+let roomIdRngState = Number.isFinite(parsedRoomIdSeed) ? (parsedRoomIdSeed >>> 0) : randomInt(0x100000000);
+
+function nextRoomIdRandom() {
+  roomIdRngState = (roomIdRngState + 0x6D2B79F5) >>> 0;
+  let t = roomIdRngState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
 }
 
-function getLobbyPlayerIds(lobby) {
-  return lobby.playerSlots.map((slot) => slot.playerId);
+function createRoomId() {
+  let roomId;
+  do {
+    roomId = Math.floor(nextRoomIdRandom() * (36 ** ROOM_ID_LENGTH))
+      .toString(36)
+      .padStart(ROOM_ID_LENGTH, '0')
+      .toUpperCase();
+  } while (lobbies[roomId]);
+  return roomId;
 }
 
 function refreshLobbyAuthority(lobby) {
+  if (lobby.serverAuthority) {
+    lobby.authoritySocketId = null;
+    return;
+  }
+
   const authoritySlot = getPlayerSlotByPlayerId(lobby, lobby.authorityPlayerId);
   lobby.authoritySocketId = authoritySlot?.connectionState === 'connected' ? authoritySlot.socketId : null;
 }
 
+function isLobbyHostSocket(lobby, socketId) {
+  if (lobby.serverAuthority) {
+    return getPlayerIdForSocket(lobby, socketId) === lobby.authorityPlayerId;
+  }
+  return socketId === lobby.authoritySocketId;
+}
+
 function isLobbyFull(lobby) {
   return getJoinedSlots(lobby).length === lobby.maxPlayers;
 }
 
+// With two or more players still connected the match keeps going: the authority moves to a connected seat
+// if needed and the turns of disconnected seats are skipped. Only a lone survivor waits for the others.
 function isLobbyPausedForDisconnect(lobby) {
-  return !!lobby.started && getDisconnectedSlots(lobby).length > 0;
+  return !!lobby.started && getDisconnectedSlots(lobby).length > 0 && getConnectedSlots(lobby).length < 2;
 }
 
 function getLobbyPhase(lobby) {
@@ -401,7 +589,7 @@ function getLobbyPhase(lobby) {
 }
 
 function emitLobbyState(roomId, lobby) {
-  io.to(roomId).emit('lobby_state', {
+  io.to([roomId, getSpectatorRoomId(roomId)]).emit('lobby_state', {
     roomId,
     mapId: lobby.mapId || 'MAP_1',
     mapData: lobby.mapData || null,
@@ -412,13 +600,368 @@ function emitLobbyState(roomId, lobby) {
     maxPlayers: lobby.maxPlayers || 2,
     started: !!lobby.started,
     authoritySocketId: lobby.authoritySocketId || null,
+    serverAuthority: !!lobby.serverAuthority,
+    hostPlayerId: lobby.authorityPlayerId,
     hostAdminEnabled: !!lobby.hostAdminEnabled,
     fogOfWarDisabled: !!lobby.fogOfWarDisabled,
+    matchRules: lobby.matchRules || null,
     phase: getLobbyPhase(lobby),
-    pausedForDisconnect: isLobbyPausedForDisconnect(lobby)
+    pausedForDisconnect: isLobbyPausedForDisconnect(lobby),
+    spectatorCount: getSpectators(lobby).length,
+    spectatorDelayMs: lobby.spectatorDelayMs || 0,
+    isPublic: !!lobby.isPublic
+  });
+  scheduleLobbyBrowserUpdate();
+}
+
+// Lobby browser
+// Sockets in LOBBY_BROWSER_ROOM get the list of public rooms that still have an open slot, resent (debounced)
+// whenever a room's lobby state changes or a room goes away. Filtering by size and mode happens client-side.
+const LOBBY_BROWSER_ROOM = 'lobby_browser';
+const LOBBY_BROWSER_UPDATE_DELAY_MS = 250;
+let lobbyBrowserUpdateTimer = null;
+
+function isLobbyListed(lobby) {
+  return !!lobby.isPublic && !lobby.started && getOpenSlots(lobby).length > 0;
+}
+
+function buildLobbyListing(roomId, lobby) {
+  return {
+    roomId,
+    mapId: lobby.mapId || 'MAP_1',
+    matchMode: lobby.matchMode || normalizeLobbyMatchMode(null, lobby.maxPlayers),
+    playerCount: getJoinedSlots(lobby).length,
+    maxPlayers: lobby.maxPlayers || 2,
+    hostAdminEnabled: !!lobby.hostAdminEnabled,
+    fogOfWarDisabled: !!lobby.fogOfWarDisabled,
+    spectatorDelayMs: lobby.spectatorDelayMs || 0,
+    createdAt: lobby.createdAt || 0
+  };
+}
+
+function buildLobbyList() {
+  return Object.entries(lobbies)
+    .filter(([, lobby]) => isLobbyListed(lobby))
+    .map(([roomId, lobby]) => buildLobbyListing(roomId, lobby))
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+function scheduleLobbyBrowserUpdate() {
+  if (lobbyBrowserUpdateTimer) return;
+  lobbyBrowserUpdateTimer = setTimeout(() => {
+    lobbyBrowserUpdateTimer = null;
+    io.to(LOBBY_BROWSER_ROOM).emit('lobby_list', { lobbies: buildLobbyList() });
+  }, LOBBY_BROWSER_UPDATE_DELAY_MS);
+}
+
+// Each seat gets its own view of a snapshot so hidden units and other players' hands never leave the server.
+// A peer authority runs the rules itself, so it always gets the full state (e.g. when resuming).
+function buildSyncStateForPlayer(lobby, data, playerId) {
+  if (!redactSyncStateForPlayer || !playerId || !data || !Array.isArray(data.units)) {
+    return data;
+  }
+  if (!lobby.serverAuthority && playerId === lobby.authorityPlayerId) {
+    return data;
+  }
+  return redactSyncStateForPlayer(data, playerId, lobby.gameState?.terrain);
+}
+
+// Per-seat replication baseline: the last view sent to that seat and its sequence number.
+function getSeatSyncState(lobby, playerId) {
+  return lobby.seatSync?.[playerId] || null;
+}
+
+function clearSeatSyncState(lobby, playerId) {
+  if (lobby.seatSync) {
+    delete lobby.seatSync[playerId];
+  }
+}
+
+function rememberSeatSyncState(lobby, playerId, view) {
+  const seq = (getSeatSyncState(lobby, playerId)?.seq || 0) + 1;
+  if (createSyncDelta) {
+    lobby.seatSync = lobby.seatSync || {};
+    lobby.seatSync[playerId] = { seq, view };
+  }
+  return seq;
+}
+
+function emitFullSyncToSeat(roomId, lobby, slot, view, meta) {
+  const syncSeq = rememberSeatSyncState(lobby, slot.playerId, view);
+  recordLobbyMetric(roomId, lobby, 'fanout', 'SYNC_STATE', view);
+  io.to(slot.socketId).emit('authoritative_command', { action: 'SYNC_STATE', data: view, meta: { ...meta, syncSeq } });
+}
+
+// Seats with a baseline only receive what changed since their last snapshot (see services/syncDelta.ts).
+function emitSyncStateToSeats(roomId, lobby, data, meta) {
+  lobby.visibleUnitIds = lobby.visibleUnitIds || {};
+  getConnectedSlots(lobby).forEach((slot) => {
+    const seatData = buildSyncStateForPlayer(lobby, data, slot.playerId);
+    if (Array.isArray(seatData?.units)) {
+      lobby.visibleUnitIds[slot.playerId] = new Set(seatData.units.map((unit) => unit.id));
+    }
+
+    const seatSync = getSeatSyncState(lobby, slot.playerId);
+    if (!createSyncDelta || !seatSync) {
+      emitFullSyncToSeat(roomId, lobby, slot, seatData, meta);
+      return;
+    }
+
+    const delta = createSyncDelta(seatSync.view, seatData, seatSync.seq, seatSync.seq + 1);
+    if (isSyncDeltaEmpty(delta)) return;
+
+    lobby.seatSync[slot.playerId] = { seq: delta.seq, view: applySyncDelta(seatSync.view, delta) };
+    recordLobbyMetric(roomId, lobby, 'fanout', 'SYNC_DELTA', delta);
+    io.to(slot.socketId).emit('authoritative_command', { action: 'SYNC_DELTA', data: delta, meta });
+  });
+}
+
+// Animation cues a peer authority may relay through 'game_action'. State only ever moves on the authoritative channel.
+const RELAYED_CUE_ACTIONS = new Set([
+  'MOVE',
+  'TELEPORT',
+  'ATTACK_ANIMATION',
+  'SUPPORT_PULSE',
+  'DAMAGE_PULSES',
+  'CREDIT_PULSES',
+  'MISS_PULSE',
+  'TILE_PULSE'
+]);
+
+// Cues and relayed actions name units (a MOVE carries the full path, an attack its source and target), so each
+// seat only gets the ones whose units are in its last snapshot. `exceptSocketId` skips the peer that relayed it.
+function emitCueToSeats(roomId, lobby, action, data, exceptSocketId = null) {
+  const filterBySeat = !!redactCueForViewer && !lobby.fogOfWarDisabled;
+  getConnectedSlots(lobby).forEach((slot) => {
+    if (slot.socketId === exceptSocketId) return;
+    const seatData = filterBySeat
+      ? redactCueForViewer(data, lobby.visibleUnitIds?.[slot.playerId] || new Set())
+      : data;
+    if (seatData === null) return;
+    io.to(slot.socketId).emit('game_action', { roomId, action, data: seatData });
+  });
+}
+
+// Spectators
+// Observers live in lobby.spectators (socket id -> entry), outside the player slots, and join a separate
+// socket.io room so nothing sent to the seats reaches them. Everything about the match itself (start,
+// character picks, snapshots, cues) reaches them through a feed held back by the room's spectatorDelayMs,
+// so a spectator cannot relay live positions to a player ("ghosting"). In a fogged room full vision also
+// needs a delay of at least MIN_FULL_VISION_DELAY_MS (server/spectators.js); otherwise spectators pick a seat.
+const spectatorRedaction = { redactSyncStateForPlayer, omitRandomState };
+
+function getSpectatorRoomId(roomId) {
+  return `${roomId}:spectators`;
+}
+
+function emitSpectatorPerspectiveRejection(socket, roomId, perspective, reason) {
+  console.warn(`[ROOM][SPECTATE_REJECT] room=${roomId} socket=${socket.id} perspective=${perspective ?? 'n/a'} reason=${reason}`);
+  socket.emit('error_message', reason === 'FULL_VISION_NEEDS_DELAY'
+    ? 'Full vision of a fogged match needs a spectator delay of at least 30s. Watch a player instead.'
+    : 'Unknown spectator perspective');
+}
+
+function getSpectators(lobby) {
+  return Object.values(lobby.spectators || {});
+}
+
+function getSpectatorBySocketId(lobby, socketId) {
+  return lobby.spectators?.[socketId] || null;
+}
+
+function rememberSpectatorView(spectator, view) {
+  spectator.seq += 1;
+  spectator.view = createSyncDelta ? view : null;
+  spectator.visibleUnitIds = new Set((view.units || []).map((unit) => unit.id));
+  return spectator.seq;
+}
+
+function emitFullSyncToSpectator(lobby, spectator, meta) {
+  const view = buildSpectatorView(lobby.spectatorGameState, spectator.perspective, spectatorRedaction);
+  const syncSeq = rememberSpectatorView(spectator, view);
+  io.to(spectator.socketId).emit('authoritative_command', { action: 'SYNC_STATE', data: view, meta: { ...meta, syncSeq } });
+}
+
+function emitSyncToSpectators(lobby, meta) {
+  getSpectators(lobby).forEach((spectator) => {
+    if (!createSyncDelta || !spectator.view) {
+      emitFullSyncToSpectator(lobby, spectator, meta);
+      return;
+    }
+
+    const view = buildSpectatorView(lobby.spectatorGameState, spectator.perspective, spectatorRedaction);
+    const delta = createSyncDelta(spectator.view, view, spectator.seq, spectator.seq + 1);
+    spectator.visibleUnitIds = new Set((view.units || []).map((unit) => unit.id));
+    if (isSyncDeltaEmpty(delta)) return;
+
+    spectator.seq = delta.seq;
+    spectator.view = applySyncDelta(spectator.view, delta);
+    io.to(spectator.socketId).emit('authoritative_command', { action: 'SYNC_DELTA', data: delta, meta });
+  });
+}
+
+// Runs `deliver` once the room's delay has passed. Pending deliveries are dropped when the room resets or closes.
+function queueSpectatorFeed(roomId, lobby, deliver) {
+  const feedEpoch = lobby.spectatorFeedEpoch || 0;
+  const run = () => {
+    if (lobbies[roomId] !== lobby || (lobby.spectatorFeedEpoch || 0) !== feedEpoch) return;
+    deliver();
+  };
+
+  if (!lobby.spectatorDelayMs) {
+    run();
+    return;
+  }
+  setTimeout(run, lobby.spectatorDelayMs);
+}
+
+function queueSpectatorSync(roomId, lobby, meta) {
+  const state = lobby.gameState;
+  queueSpectatorFeed(roomId, lobby, () => {
+    lobby.spectatorGameState = state;
+    emitSyncToSpectators(lobby, meta);
+  });
+}
+
+function queueSpectatorEvent(roomId, lobby, eventName, payload) {
+  queueSpectatorFeed(roomId, lobby, () => {
+    if (eventName === 'game_start') {
+      lobby.spectatorStarted = true;
+    }
+    io.to(getSpectatorRoomId(roomId)).emit(eventName, payload);
+  });
+}
+
+// Same rule as for seats: a cue only goes to spectators whose view already contains the units it names.
+function queueSpectatorCue(roomId, lobby, action, data) {
+  queueSpectatorFeed(roomId, lobby, () => {
+    getSpectators(lobby).forEach((spectator) => {
+      const spectatorData = spectator.perspective === SPECTATOR_FULL_VISION || lobby.fogOfWarDisabled || !redactCueForViewer
+        ? data
+        : redactCueForViewer(data, spectator.visibleUnitIds || new Set());
+      if (spectatorData !== null) {
+        io.to(spectator.socketId).emit('game_action', { roomId, action, data: spectatorData });
+      }
+    });
   });
 }
 
+// Called whenever the match behind the feed goes away (room reset): spectators start over from a fresh baseline.
+function resetSpectatorFeed(lobby) {
+  lobby.spectatorFeedEpoch = (lobby.spectatorFeedEpoch || 0) + 1;
+  lobby.spectatorGameState = null;
+  lobby.spectatorStarted = false;
+  getSpectators(lobby).forEach((spectator) => {
+    spectator.view = null;
+    spectator.visibleUnitIds = null;
+  });
+}
+
+function removeSpectator(socket, roomId, lobby) {
+  if (!getSpectatorBySocketId(lobby, socket.id)) return false;
+
+  delete lobby.spectators[socket.id];
+  socket.leave(getSpectatorRoomId(roomId));
+  socket.data.spectatingRoomId = null;
+  console.log(`[ROOM][SPECTATE_LEAVE] room=${roomId} socket=${socket.id} spectators=${getSpectators(lobby).length}`);
+  emitLobbyState(roomId, lobby);
+  return true;
+}
+
+function leaveSpectatedLobby(socket) {
+  const roomId = socket.data?.spectatingRoomId;
+  const lobby = roomId ? lobbies[roomId] : null;
+  if (lobby) {
+    removeSpectator(socket, roomId, lobby);
+  }
+}
+
+function closeSpectatorFeed(roomId, lobby, reason) {
+  if (getSpectators(lobby).length === 0) return;
+
+  const spectatorRoomId = getSpectatorRoomId(roomId);
+  io.to(spectatorRoomId).emit('spectator_ended', { roomId, reason });
+  getSpectators(lobby).forEach((spectator) => {
+    const spectatorSocket = io.sockets.sockets.get(spectator.socketId);
+    if (!spectatorSocket) return;
+    spectatorSocket.leave(spectatorRoomId);
+    spectatorSocket.data.spectatingRoomId = null;
+  });
+  lobby.spectators = {};
+}
+
+function handleSimulationOutput(roomId, action, data) {
+  const lobby = lobbies[roomId];
+  if (!lobby) return;
+
+  if (action === 'SYNC_STATE') {
+    const turnBefore = lobby.currentTurn;
+    if (typeof data?.currentTurn === 'string' && data.currentTurn.length > 0) {
+      lobby.currentTurn = data.currentTurn;
+    }
+    recordLobbyMetric(roomId, lobby, 'sync', action, data);
+    lobby.gameState = {
+      ...(lobby.gameState || {}),
+      ...data
+    };
+    recordReplayCheckpoint(lobby);
+    recordLobbySeriesResult(roomId, lobby);
+    scheduleLobbyPersist(roomId);
+
+    const meta = {
+      actorPlayerId: null,
+      authority: 'SERVER',
+      turnBefore,
+      turnAfter: lobby.currentTurn,
+      timestamp: Date.now()
+    };
+    emitSyncStateToSeats(roomId, lobby, data, meta);
+    queueSpectatorSync(roomId, lobby, meta);
+    syncTurnClock(roomId, lobby);
+    scheduleDisconnectedTurnSkip(roomId, lobby);
+    return;
+  }
+
+  recordLobbyMetric(roomId, lobby, 'relay', action, data);
+  emitCueToSeats(roomId, lobby, action, data);
+  queueSpectatorCue(roomId, lobby, action, data);
+}
+
+function startLobbySimulation(roomId, lobby) {
+  if (!lobby.serverAuthority || !createServerSimulation) return;
+
+  stopLobbySimulation(lobby);
+  // Output from a simulation that has since been stopped or replaced (rematch, reset, closed room) is dropped.
+  // While the constructor runs both sides are still null, so the opening snapshot gets through.
+  let simulation = null;
+  try {
+    simulation = lobby.simulation = createServerSimulation({
+      roomId,
+      mapId: lobby.mapId || 'MAP_1',
+      mapData: lobby.mapData || null,
+      turnOrder: lobby.turnOrder,
+      hostAdminEnabled: !!lobby.hostAdminEnabled,
+      fogOfWarDisabled: !!lobby.fogOfWarDisabled,
+      matchRules: lobby.matchRules || null,
+      initialState: lobby.gameState || null,
+      onOutput: (action, data) => {
+        if (lobbies[roomId] !== lobby || lobby.simulation !== simulation) return;
+        handleSimulationOutput(roomId, action, data);
+      }
+    });
+    console.log(`[SIM][START] room=${roomId} map=${lobby.mapId || 'MAP_1'} players=${lobby.turnOrder.join(',')}`);
+  } catch (error) {
+    lobby.simulation = null;
+    console.error(`[SIM][START_FAILED] room=${roomId} reason=${formatLogValue(error.message)}`);
+  }
+}
+
+function stopLobbySimulation(lobby) {
+  if (!lobby?.simulation) return;
+  lobby.simulation.dispose();
+  lobby.simulation = null;
+}
+
 function assignSocketToSlot(socket, roomId, lobby, slot) {
   socket.join(roomId);
   socket.data.roomId = roomId;
@@ -445,6 +988,7 @@ function removePlayerFromLobby(socket, roomId, lobby, departureMessage = 'Oppone
 
   departingSlot.socketId = null;
   departingSlot.connectionState = 'open';
+  departingSlot.sessionTokenHash = null;
   departingSlot.joinedAt = null;
   departingSlot.disconnectedAt = null;
   departingSlot.lastSeenAt = Date.now();
@@ -458,26 +1002,153 @@ function removePlayerFromLobby(socket, roomId, lobby, departureMessage = 'Oppone
   if (getConnectedSlots(lobby).length === 0) {
     flushLobbyMetrics(roomId, lobby, 'all_players_left');
     console.log(`[ROOM][CLEANUP] room=${roomId} reason=all_players_left`);
+    stopLobbySimulation(lobby);
+    stopTurnClock(lobby);
+    closeSpectatorFeed(roomId, lobby, 'all_players_left');
     delete lobbies[roomId];
+    forgetLobby(roomId);
     return;
   }
 
+  stopLobbySimulation(lobby);
+  stopTurnClock(lobby);
   lobby.started = false;
   lobby.currentTurn = lobby.turnOrder?.[0] || PLAYER_ONE;
   lobby.gameState = null;
+  lobby.seatSync = {};
+  lobby.replay = null;
+  lobby.series = null;
   lobby.selectedCharacters = createEmptyCharacterSelections();
+  resetSpectatorFeed(lobby);
   refreshLobbyAuthority(lobby);
 
   emitLobbyState(roomId, lobby);
+  scheduleLobbyPersist(roomId);
   io.to(roomId).emit('error_message', departureMessage);
 }
 
+// Authority migration
+// In host-peer rooms the rules run on the authority's client. If that seat drops while the match can keep going,
+// the first connected seat in turn order takes over for good: it becomes lobby.authorityPlayerId, receives the
+// latest stored gameState in full, and the original host comes back as a regular player.
+
+function migrateLobbyAuthority(roomId, lobby) {
+  if (lobby.serverAuthority || !lobby.started || lobby.authoritySocketId || isLobbyPausedForDisconnect(lobby)) {
+    return null;
+  }
+
+  const nextSlot = getConnectedSlots(lobby)[0];
+  if (!nextSlot) return null;
+
+  const previousPlayerId = lobby.authorityPlayerId;
+  lobby.authorityPlayerId = nextSlot.playerId;
+  refreshLobbyAuthority(lobby);
+  console.warn(`[ROOM][AUTHORITY_MIGRATE] room=${roomId} from=${previousPlayerId} to=${nextSlot.playerId} socket=${nextSlot.socketId} phase=${getLobbyPhase(lobby)}`);
+  return nextSlot;
+}
+
+// Sent after the lobby_state that names the new authority, so its client already treats itself as the authority.
+function handOverLobbyAuthority(roomId, lobby, slot) {
+  if (!lobby.gameState) return;
+
+  clearSeatSyncState(lobby, slot.playerId);
+  emitFullSyncToSeat(roomId, lobby, slot, lobby.gameState, {
+    actorPlayerId: null,
+    authorityMigrated: true,
+    turnBefore: lobby.currentTurn,
+    turnAfter: lobby.currentTurn,
+    timestamp: Date.now()
+  });
+}
+
+// Runs an accepted command on whoever holds the rules: the room's simulation or the peer authority.
+// Returns a rejection reason, or null once the command is on its way.
+function forwardCommandToAuthority(roomId, lobby, action, data, actorPlayerId) {
+  const turnBefore = lobby.currentTurn;
+  if (action === 'SKIP_TURN') {
+    data = { ...(data || {}), overtimeDamage: getTurnOvertimeDamage(lobby) };
+  }
+
+  if (lobby.simulation) {
+    try {
+      const rejection = lobby.simulation.applyCommand(action, data, actorPlayerId);
+      if (rejection) return rejection;
+    } catch (error) {
+      console.error(`[SIM][COMMAND_FAILED] room=${roomId} actor=${actorPlayerId} action=${action} reason=${formatLogValue(error.message)}`);
+      return 'SIMULATION_ERROR';
+    }
+    recordReplayCommand(lobby, action, data, actorPlayerId, turnBefore);
+    lobby.currentTurn = lobby.simulation.getCurrentTurn();
+    return null;
+  }
+
+  if (!lobby.authoritySocketId) {
+    return 'NO_STATE_AUTHORITY';
+  }
+
+  if (action === 'SKIP_TURN') {
+    lobby.currentTurn = getNextTurn(lobby.currentTurn, lobby.turnOrder);
+  }
+  recordReplayCommand(lobby, action, data, actorPlayerId, turnBefore);
+
+  io.to(lobby.authoritySocketId).emit('authoritative_command', {
+    action,
+    data,
+    meta: {
+      actorPlayerId,
+      turnBefore,
+      turnAfter: lobby.currentTurn,
+      timestamp: Date.now()
+    }
+  });
+  return null;
+}
+
+// Checked on every snapshot and connection change: once a disconnected seat's turn comes up it gets
+// DISCONNECTED_TURN_GRACE_MS to reconnect before the server skips the turn for it.
+const DISCONNECTED_TURN_GRACE_MS = 15000;
+
+function isTurnSkippableForDisconnect(roomId, lobby, playerId) {
+  return lobbies[roomId] === lobby
+    && !!lobby.gameState
+    && !isLobbyPausedForDisconnect(lobby)
+    && lobby.currentTurn === playerId
+    && getPlayerSlotByPlayerId(lobby, playerId)?.connectionState === 'disconnected';
+}
+
+function scheduleDisconnectedTurnSkip(roomId, lobby) {
+  const playerId = lobby.currentTurn;
+  if (!isTurnSkippableForDisconnect(roomId, lobby, playerId)) {
+    clearTimeout(lobby.disconnectedTurnSkip?.timer);
+    lobby.disconnectedTurnSkip = null;
+    return;
+  }
+  if (lobby.disconnectedTurnSkip?.playerId === playerId) return;
+
+  clearTimeout(lobby.disconnectedTurnSkip?.timer);
+  const timer = setTimeout(() => {
+    lobby.disconnectedTurnSkip = null;
+    if (!isTurnSkippableForDisconnect(roomId, lobby, playerId)) return;
+
+    console.log(`[ROOM][TURN_SKIP] room=${roomId} player=${playerId} reason=disconnected graceMs=${DISCONNECTED_TURN_GRACE_MS}`);
+    recordLobbyMetric(roomId, lobby, 'auth', 'SKIP_TURN', {});
+    const rejection = forwardCommandToAuthority(roomId, lobby, 'SKIP_TURN', {}, playerId);
+    if (rejection) {
+      console.warn(`[ROOM][TURN_SKIP_FAILED] room=${roomId} player=${playerId} reason=${rejection}`);
+      return;
+    }
+    scheduleDisconnectedTurnSkip(roomId, lobby);
+  }, DISCONNECTED_TURN_GRACE_MS);
+  lobby.disconnectedTurnSkip = { playerId, timer };
+}
+
 function markPlayerDisconnected(socket, roomId, lobby, reason = 'transport disconnect') {
   const departingSlot = getPlayerSlotBySocketId(lobby, socket.id);
   if (!departingSlot) return;
 
   departingSlot.socketId = null;
   departingSlot.connectionState = 'disconnected';
+  clearSeatSyncState(lobby, departingSlot.playerId);
   departingSlot.disconnectedAt = Date.now();
   departingSlot.lastSeenAt = Date.now();
   socket.data.roomId = null;
@@ -489,16 +1160,25 @@ function markPlayerDisconnected(socket, roomId, lobby, reason = 'transport disco
   const transportName = socket.conn?.transport?.name || 'unknown';
   const connectionAgeMs = socket.data?.connectedAt ? Date.now() - socket.data.connectedAt : null;
   const sessionAgePart = typeof connectionAgeMs === 'number' ? ` ageMs=${connectionAgeMs}` : '';
-  console.warn(`[ROOM][DISCONNECT] room=${roomId} player=${departingSlot.playerId} socket=${socket.id} reason=${reason} transport=${transportName} connected=${connectedCount}/${joinedCount} phase=${getLobbyPhase(lobby)}${sessionAgePart}`);
+  console.warn(`[ROOM][DISCONNECT] room=${roomId} player=${departingSlot.playerId} socket=${socket.id} reason=${formatLogValue(reason)} transport=${transportName} connected=${connectedCount}/${joinedCount} phase=${getLobbyPhase(lobby)}${sessionAgePart}`);
 
   if (connectedCount === 0) {
     flushLobbyMetrics(roomId, lobby, 'all_players_disconnected');
     console.log(`[ROOM][CLEANUP] room=${roomId} reason=all_players_disconnected`);
+    stopLobbySimulation(lobby);
+    stopTurnClock(lobby);
+    closeSpectatorFeed(roomId, lobby, 'all_players_disconnected');
     delete lobbies[roomId];
+    forgetLobby(roomId);
     return;
   }
 
+  const migratedSlot = migrateLobbyAuthority(roomId, lobby);
   emitLobbyState(roomId, lobby);
+  if (migratedSlot) {
+    handOverLobbyAuthority(roomId, lobby, migratedSlot);
+  }
+  scheduleLobbyPersist(roomId);
   io.to(roomId).emit('player_connection_state', {
     roomId,
     playerId: departingSlot.playerId,
@@ -506,77 +1186,247 @@ function markPlayerDisconnected(socket, roomId, lobby, reason = 'transport disco
     reason,
     disconnectedPlayerIds: getDisconnectedSlots(lobby).map((slot) => slot.playerId),
     connectedPlayerIds: getConnectedSlots(lobby).map((slot) => slot.playerId),
+    pausedForDisconnect: isLobbyPausedForDisconnect(lobby),
     phase: getLobbyPhase(lobby)
   });
+  syncTurnClock(roomId, lobby);
+  scheduleDisconnectedTurnSkip(roomId, lobby);
+  if (isLobbyMatchOver(lobby) && !startRematchIfAgreed(roomId, lobby)) {
+    emitRematchState(roomId, lobby);
+  }
 }
 
-function emitGameStart(roomId, lobby) {
-  io.to(roomId).emit('game_start', {
-    roomId,
-    players: lobby.playerSlots.map((slot) => slot.socketId),
-    playerIds: getLobbyPlayerIds(lobby),
-    mapId: lobby.mapId || 'MAP_1',
-    mapData: lobby.mapData || null,
-    authoritySocketId: lobby.authoritySocketId,
-    hostAdminEnabled: !!lobby.hostAdminEnabled,
-    fogOfWarDisabled: !!lobby.fogOfWarDisabled,
-    turnOrder: lobby.turnOrder
-  });
+// Turn clock
+// The server owns multiplayer turn deadlines; clients only display what 'turn_clock' reports. Once a turn's
+// TURN_TIMER_MS is up the active player runs into overtime (1 damage to their main per second, as in solo), and
+// after TURN_OVERTIME_LIMIT_MS the server ends the turn itself. Any SKIP_TURN carries the overtime run up so far.
+// The clock freezes while the match is paused for a reconnect.
+const TURN_OVERTIME_LIMIT_MS = 20000;
+const TURN_EXPIRY_RETRY_MS = 5000;
+
+function getTurnOvertimeDamage(lobby) {
+  const clock = lobby.turnClock;
+  if (!clock || clock.playerId !== lobby.currentTurn) return 0;
+
+  const overtimeMs = clock.pausedRemainingMs !== null ? -clock.pausedRemainingMs : Date.now() - clock.deadlineAt;
+  return Math.max(0, Math.min(Math.floor(overtimeMs / 1000), TURN_OVERTIME_LIMIT_MS / 1000));
 }
 
-function emitGameResume(socket, roomId, lobby, playerId) {
-  socket.emit('game_resume', {
+function getLobbyTurnTimerMs(lobby) {
+  return lobby.matchRules ? lobby.matchRules.turnTimerSeconds * 1000 : TURN_TIMER_MS;
+}
+
+function buildTurnClockPayload(roomId, lobby) {
+  const clock = lobby.turnClock;
+  return {
     roomId,
-    playerId,
-    players: lobby.playerSlots.map((slot) => slot.socketId),
-    playerIds: getLobbyPlayerIds(lobby),
-    connectedPlayerIds: getConnectedSlots(lobby).map((slot) => slot.playerId),
-    disconnectedPlayerIds: getDisconnectedSlots(lobby).map((slot) => slot.playerId),
-    maxPlayers: lobby.maxPlayers,
-    mapId: lobby.mapId || 'MAP_1',
-    mapData: lobby.mapData || null,
-    authoritySocketId: lobby.authoritySocketId,
-    hostAdminEnabled: !!lobby.hostAdminEnabled,
+    playerId: clock?.playerId || null,
+    remainingMs: clock ? (clock.pausedRemainingMs ?? clock.deadlineAt - Date.now()) : null,
+    overtimeLimitMs: TURN_OVERTIME_LIMIT_MS,
+    paused: clock ? clock.pausedRemainingMs !== null : false
+  };
+}
+
+function stopTurnClock(lobby) {
+  clearTimeout(lobby.turnClock?.timer);
+  lobby.turnClock = null;
+}
+
+function armTurnClock(roomId, lobby, clock, delayMs) {
+  clearTimeout(clock.timer);
+  clock.timer = setTimeout(() => {
+    clock.timer = null;
+    if (lobbies[roomId] !== lobby || lobby.turnClock !== clock || clock.pausedRemainingMs !== null) return;
+
+    console.log(`[TURN][EXPIRED] room=${roomId} player=${clock.playerId} overtimeDamage=${getTurnOvertimeDamage(lobby)}`);
+    recordLobbyMetric(roomId, lobby, 'auth', 'SKIP_TURN', {});
+    const rejection = forwardCommandToAuthority(roomId, lobby, 'SKIP_TURN', {}, clock.playerId);
+    if (rejection) {
+      console.warn(`[TURN][EXPIRE_FAILED] room=${roomId} player=${clock.playerId} reason=${rejection}`);
+    }
+    // The next snapshot replaces this clock; if the authority ignored the skip, try again.
+    armTurnClock(roomId, lobby, clock, TURN_EXPIRY_RETRY_MS);
+  }, Math.max(0, delayMs));
+}
+
+// Called after every snapshot and connection change: starts a clock for a new turn and pauses or resumes it.
+function syncTurnClock(roomId, lobby) {
+  const state = lobby.gameState;
+  const playerId = lobby.currentTurn;
+  if (!state || state.winner || !lobby.turnOrder?.includes(playerId)) {
+    if (lobby.turnClock) {
+      stopTurnClock(lobby);
+      io.to(roomId).emit('turn_clock', buildTurnClockPayload(roomId, lobby));
+    }
+    return;
+  }
+
+  const turnKey = `${playerId}:${state.turnCount ?? ''}`;
+  const paused = isLobbyPausedForDisconnect(lobby);
+  let clock = lobby.turnClock;
+  if (!clock || clock.turnKey !== turnKey) {
+    stopTurnClock(lobby);
+    clock = { turnKey, playerId, deadlineAt: Date.now() + getLobbyTurnTimerMs(lobby), pausedRemainingMs: null, timer: null };
+    lobby.turnClock = clock;
+  } else if (paused === (clock.pausedRemainingMs !== null)) {
+    return;
+  }
+
+  if (paused) {
+    clearTimeout(clock.timer);
+    clock.timer = null;
+    clock.pausedRemainingMs = clock.pausedRemainingMs ?? clock.deadlineAt - Date.now();
+  } else {
+    if (clock.pausedRemainingMs !== null) {
+      clock.deadlineAt = Date.now() + clock.pausedRemainingMs;
+      clock.pausedRemainingMs = null;
+    }
+    armTurnClock(roomId, lobby, clock, clock.deadlineAt + TURN_OVERTIME_LIMIT_MS - Date.now());
+  }
+  io.to(roomId).emit('turn_clock', buildTurnClockPayload(roomId, lobby));
+}
+
+// Match chat
+// Chat and tile pings are relayed, never stored. ALL messages reach every connected seat, TEAM messages and pings
+// only the sender's allies. Spectators get neither. Each socket has its own sliding-window budget per kind.
+const CHAT_MAX_LENGTH = 200;
+const CHAT_RATE_LIMIT = { max: 5, windowMs: 10000 };
+const PING_RATE_LIMIT = { max: 3, windowMs: 5000 };
+const TEAM_MATCH_MODES = new Set(['team_2v1', 'team_2v2']);
+let nextChatEventId = 1;
+
+function getLobbyMatchMode(lobby) {
+  return lobby.gameState?.matchMode || lobby.matchMode || normalizeLobbyMatchMode(null, lobby.maxPlayers);
+}
+
+function getAlliedSlots(lobby, playerId) {
+  const matchMode = getLobbyMatchMode(lobby);
+  return getConnectedSlots(lobby).filter((slot) => arePlayersAlliedInMode(matchMode, playerId, slot.playerId));
+}
+
+// Returns 0 and books a slot when the socket is within its budget, otherwise how long until the next slot frees up.
+function takeRateLimitSlot(socket, kind, limit) {
+  const now = Date.now();
+  const rateLimits = socket.data.rateLimits || (socket.data.rateLimits = {});
+  const recent = (rateLimits[kind] || []).filter((sentAt) => now - sentAt < limit.windowMs);
+  rateLimits[kind] = recent;
+  if (recent.length >= limit.max) {
+    return limit.windowMs - (now - recent[0]);
+  }
+  recent.push(now);
+  return 0;
+}
+
+function createChatEventId() {
+  return `${Date.now().toString(36)}-${nextChatEventId++}`;
+}
+
+function emitToSlots(slots, eventName, payload) {
+  const socketIds = slots.map((slot) => slot.socketId).filter(Boolean);
+  if (socketIds.length > 0) {
+    io.to(socketIds).emit(eventName, payload);
+  }
+}
+
+function emitGameStart(roomId, lobby) {
+  const payload = {
+    roomId,
+    players: lobby.playerSlots.map((slot) => slot.socketId),
+    playerIds: getLobbyPlayerIds(lobby),
+    mapId: lobby.mapId || 'MAP_1',
+    mapData: lobby.mapData || null,
+    authoritySocketId: lobby.authoritySocketId,
+    serverAuthority: !!lobby.serverAuthority,
+    hostPlayerId: lobby.authorityPlayerId,
+    hostAdminEnabled: !!lobby.hostAdminEnabled,
     fogOfWarDisabled: !!lobby.fogOfWarDisabled,
+    matchRules: lobby.matchRules || null,
+    turnOrder: lobby.turnOrder
+  };
+  io.to(roomId).emit('game_start', payload);
+  queueSpectatorEvent(roomId, lobby, 'game_start', payload);
+}
+
+function emitGameResume(socket, roomId, lobby, playerId) {
+  const gameState = lobby.gameState ? buildSyncStateForPlayer(lobby, lobby.gameState, playerId) : null;
+  const syncSeq = gameState ? rememberSeatSyncState(lobby, playerId, gameState) : 0;
+  socket.emit('game_resume', {
+    roomId,
+    playerId,
+    players: lobby.playerSlots.map((slot) => slot.socketId),
+    playerIds: getLobbyPlayerIds(lobby),
+    connectedPlayerIds: getConnectedSlots(lobby).map((slot) => slot.playerId),
+    disconnectedPlayerIds: getDisconnectedSlots(lobby).map((slot) => slot.playerId),
+    maxPlayers: lobby.maxPlayers,
+    mapId: lobby.mapId || 'MAP_1',
+    mapData: lobby.mapData || null,
+    authoritySocketId: lobby.authoritySocketId,
+    serverAuthority: !!lobby.serverAuthority,
+    hostPlayerId: lobby.authorityPlayerId,
+    hostAdminEnabled: !!lobby.hostAdminEnabled,
+    fogOfWarDisabled: !!lobby.fogOfWarDisabled,
+    matchRules: lobby.matchRules || null,
     turnOrder: lobby.turnOrder,
     phase: getLobbyPhase(lobby),
+    pausedForDisconnect: isLobbyPausedForDisconnect(lobby),
+    turnClock: buildTurnClockPayload(roomId, lobby),
     selectedCharacters: lobby.selectedCharacters || createEmptyCharacterSelections(),
-    gameState: lobby.gameState || null
+    gameState,
+    syncSeq
   });
 }
 
-function normalizeJoinLobbyPayload(payload) {
-  if (typeof payload === 'string') {
-    return {
-      roomId: payload,
-      preferredPlayerId: null,
-      restoreSession: false
-    };
-  }
-
-  return {
-    roomId: typeof payload?.roomId === 'string' ? payload.roomId : '',
-    preferredPlayerId: typeof payload?.preferredPlayerId === 'string' ? payload.preferredPlayerId : null,
-    restoreSession: !!payload?.restoreSession
-  };
+// Rematch
+// The winners of a finished match score a point in the room's series. Every connected player then votes on the
+// win screen, and once all of them accept the room restarts with the same seats: fresh state, new character picks
+// and a new game_start. The host decides whether the turn order rotates so someone else moves first. The series
+// score lasts until a seat changes hands.
+function emitRematchState(roomId, lobby) {
+  io.to(roomId).emit('rematch_state', buildRematchStatePayload(roomId, lobby));
 }
 
-function resolveJoinSlot(lobby, preferredPlayerId) {
-  if (preferredPlayerId) {
-    const preferredSlot = getPlayerSlotByPlayerId(lobby, preferredPlayerId);
-    if (preferredSlot && preferredSlot.connectionState !== 'connected') {
-      return preferredSlot;
-    }
-  }
+// Called after every stored snapshot; logs and announces the score once, when the match's winner first shows up.
+function recordLobbySeriesResult(roomId, lobby) {
+  if (!recordSeriesResult(lobby)) return;
+  console.log(`[ROOM][MATCH_END] room=${roomId} match=${lobby.series.matchNumber} winners=${lobby.gameState.winner.join(',')} series=${formatSeriesScores(lobby.series)}`);
+  emitRematchState(roomId, lobby);
+}
 
-  if (!lobby.started) {
-    return getOpenSlots(lobby)[0] || (getDisconnectedSlots(lobby).length === 1 ? getDisconnectedSlots(lobby)[0] : null);
-  }
+// Returns true if the vote is unanimous among at least two connected players and the rematch has started.
+function startRematchIfAgreed(roomId, lobby) {
+  const series = lobby.series;
+  if (!isRematchAgreed(lobby)) return false;
+
+  lobby.turnOrder = getRematchTurnOrder(lobby);
+  series.matchNumber += 1;
+  series.resultRecorded = false;
+  series.rematchVotes = {};
+  stopLobbySimulation(lobby);
+  stopTurnClock(lobby);
+  lobby.currentTurn = lobby.turnOrder[0] || PLAYER_ONE;
+  lobby.gameState = null;
+  lobby.seatSync = {};
+  lobby.selectedCharacters = createEmptyCharacterSelections();
+  resetSpectatorFeed(lobby);
+  lobby.replay = createLobbyReplay(roomId, lobby);
+  startLobbySimulation(roomId, lobby);
+  emitLobbyState(roomId, lobby);
+  emitGameStart(roomId, lobby);
+  emitRematchState(roomId, lobby);
+  scheduleLobbyPersist(roomId);
+  console.log(`[ROOM][REMATCH] room=${roomId} match=${series.matchNumber} turnOrder=${lobby.turnOrder.join(',')} series=${formatSeriesScores(series)}`);
+  return true;
+}
 
-  return getDisconnectedSlots(lobby).length === 1 ? getDisconnectedSlots(lobby)[0] : null;
+// Session tokens
+// A seat gets a random token when it is claimed, sent only to the claiming socket. The slot keeps just its SHA-256
+// digest, which is also what the lobby store sees. Token handling and seat resolution are in server/sessions.js.
+function emitSessionToken(socketId, roomId, slot, sessionToken) {
+  io.to(socketId).emit('session_token', { roomId, playerId: slot.playerId, sessionToken });
 }
 
 function emitJoinFailure(socket, restoreSession, roomId, reason, message) {
+  countRejection('join', reason);
   if (restoreSession) {
     socket.emit('session_restore_failed', { roomId, reason });
     return;
@@ -585,11 +1435,331 @@ function emitJoinFailure(socket, restoreSession, roomId, reason, message) {
   socket.emit('error_message', message);
 }
 
+// Lobby persistence
+// Rooms are mirrored into a lobby store so a deploy or crash does not end the matches in progress.
+// A store implements load() -> [{ roomId, record }], save(roomId, record) and remove(roomId), all async.
+// LOBBY_STORE=file (default) writes one JSON file per room into LOBBY_STORE_DIR, LOBBY_STORE=memory turns
+// persistence off, and any other value is imported as a module whose createLobbyStore() returns a store.
+const LOBBY_STORE_KIND = process.env.LOBBY_STORE || 'file';
+const LOBBY_STORE_DIR = process.env.LOBBY_STORE_DIR || path.join(__dirname, 'lobby-store');
+const LOBBY_PERSIST_DELAY_MS = 1000;
+const RESTORED_LOBBY_TTL_MS = 10 * 60 * 1000;
+
+async function createLobbyStore() {
+  if (LOBBY_STORE_KIND === 'memory') {
+    return createMemoryLobbyStore();
+  }
+  if (LOBBY_STORE_KIND === 'file') {
+    return createFileLobbyStore(LOBBY_STORE_DIR);
+  }
+
+  const storeModule = await import(pathToFileURL(path.resolve(__dirname, LOBBY_STORE_KIND)).href);
+  return storeModule.createLobbyStore();
+}
+
+const lobbyStore = await createLobbyStore();
+const pendingLobbyPersists = new Map(); // roomId -> timeout id
+const lobbyStoreWrites = new Map(); // roomId -> promise of the last queued write, so writes per room stay ordered
+
+function queueLobbyStoreWrite(roomId, write) {
+  const previous = lobbyStoreWrites.get(roomId) || Promise.resolve();
+  const next = previous
+    .then(write)
+    .catch((error) => console.error(`[STORE][WRITE_FAILED] room=${roomId} reason=${formatLogValue(error.message)}`))
+    .finally(() => {
+      if (lobbyStoreWrites.get(roomId) === next) {
+        lobbyStoreWrites.delete(roomId);
+      }
+    });
+  lobbyStoreWrites.set(roomId, next);
+  return next;
+}
+
+function persistLobby(roomId) {
+  const lobby = lobbies[roomId];
+  if (!lobby) return Promise.resolve();
+  return queueLobbyStoreWrite(roomId, () => lobbyStore.save(roomId, serializeLobby(lobby)));
+}
+
+// Coalesces bursts (SYNC_STATE arrives every few hundred ms during play) into one write per room.
+function scheduleLobbyPersist(roomId) {
+  if (pendingLobbyPersists.has(roomId)) return;
+  pendingLobbyPersists.set(roomId, setTimeout(() => {
+    pendingLobbyPersists.delete(roomId);
+    persistLobby(roomId);
+  }, LOBBY_PERSIST_DELAY_MS));
+}
+
+function forgetLobby(roomId) {
+  clearTimeout(pendingLobbyPersists.get(roomId));
+  pendingLobbyPersists.delete(roomId);
+  queueLobbyStoreWrite(roomId, () => lobbyStore.remove(roomId));
+  scheduleLobbyBrowserUpdate();
+}
+
+function expireRestoredLobby(roomId) {
+  const lobby = lobbies[roomId];
+  if (!lobby || getConnectedSlots(lobby).length > 0) return;
+
+  console.log(`[ROOM][CLEANUP] room=${roomId} reason=restored_room_unclaimed`);
+  stopLobbySimulation(lobby);
+  stopTurnClock(lobby);
+  closeSpectatorFeed(roomId, lobby, 'restored_room_unclaimed');
+  delete lobbies[roomId];
+  forgetLobby(roomId);
+}
+
+async function restorePersistedLobbies() {
+  let entries = [];
+  try {
+    entries = await lobbyStore.load();
+  } catch (error) {
+    console.error(`[STORE][LOAD_FAILED] kind=${LOBBY_STORE_KIND} reason=${formatLogValue(error.message)}`);
+    return;
+  }
+
+  entries.forEach(({ roomId, record }) => {
+    if (!isLobbyRecordSupported(record)) {
+      console.warn(`[STORE][SKIP] room=${roomId} reason=unsupported_record`);
+      forgetLobby(roomId);
+      return;
+    }
+
+    const lobby = restoreLobbyFromRecord(record, { serverAuthority: !!createServerSimulation, normalizeMatchRules });
+    lobbies[roomId] = lobby;
+    if (lobby.started) {
+      startLobbySimulation(roomId, lobby);
+      const requiredPlayerIds = getJoinedSlots(lobby).map((slot) => slot.playerId);
+      if (!lobby.gameState && requiredPlayerIds.every((id) => lobby.selectedCharacters?.[id])) {
+        lobby.simulation?.applyCharacterSelection(lobby.selectedCharacters);
+      }
+    }
+    setTimeout(() => expireRestoredLobby(roomId), RESTORED_LOBBY_TTL_MS).unref();
+    console.log(`[ROOM][RESTORE] room=${roomId} phase=${getLobbyPhase(lobby)} players=${getJoinedSlots(lobby).map((slot) => slot.playerId).join(',') || 'none'} authority=${lobby.serverAuthority ? 'server' : 'peer'}`);
+  });
+}
+
+// Cloud Run (and most orchestrators) send SIGTERM before stopping the instance: write every room out first.
+async function flushLobbyStore() {
+  pendingLobbyPersists.forEach((timeoutId) => clearTimeout(timeoutId));
+  pendingLobbyPersists.clear();
+  await Promise.all(Object.keys(lobbies).map((roomId) => persistLobby(roomId)));
+}
+
+['SIGTERM', 'SIGINT'].forEach((signal) => {
+  process.once(signal, () => {
+    console.log(`[STORE][FLUSH] signal=${signal} rooms=${Object.keys(lobbies).length}`);
+    // The log goes last so the flush itself is logged; its buffered lines would be lost on exit.
+    flushLobbyStore().finally(() => logWriter.close()).finally(() => process.exit(0));
+  });
+});
+
+// Operations
+// /metrics serves the process-wide totals in the Prometheus text format. The admin API under /admin is off
+// unless ADMIN_API_KEY is set, and every request must carry it as `Authorization: Bearer <key>`.
+const ROOM_PHASES = ['LOBBY', 'CHARACTER_SELECTION', 'IN_PROGRESS'];
+
+function formatMetricLabels(labels) {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([name, value]) => `${name}="${String(value).replace(/["\\\n]/g, '_')}"`).join(',')}}`;
+}
+
+function renderMetrics() {
+  const lines = [];
+  const addMetric = (name, type, help, samples) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    samples.forEach(([labels, value]) => lines.push(`${name}${formatMetricLabels(labels)} ${value}`));
+  };
+  const rooms = Object.values(lobbies);
+  const payloadChannels = Object.entries(serverMetrics.payloads);
+
+  addMetric('neon_rooms', 'gauge', 'Rooms by phase.',
+    ROOM_PHASES.map((phase) => [{ phase }, rooms.filter((lobby) => getLobbyPhase(lobby) === phase).length]));
+  addMetric('neon_room_seats', 'gauge', 'Claimed seats across all rooms by connection state.', [
+    [{ state: 'connected' }, rooms.reduce((total, lobby) => total + getConnectedSlots(lobby).length, 0)],
+    [{ state: 'disconnected' }, rooms.reduce((total, lobby) => total + getDisconnectedSlots(lobby).length, 0)]
+  ]);
+  addMetric('neon_spectators', 'gauge', 'Spectators watching a room.',
+    [[{}, rooms.reduce((total, lobby) => total + getSpectators(lobby).length, 0)]]);
+  addMetric('neon_connected_sockets', 'gauge', 'Open Socket.IO connections, seated or not.', [[{}, io.of('/').sockets.size]]);
+  addMetric('neon_payloads_total', 'counter', 'Payloads by channel (sync: authority snapshots, auth: commands, relay: forwarded cues, fanout: per-seat snapshots and deltas) and action.',
+    payloadChannels.flatMap(([channel, bucket]) => Object.entries(bucket.actions).map(([action, count]) => [{ channel, action }, count])));
+  addMetric('neon_payload_bytes_total', 'counter', 'Estimated JSON size of those payloads by channel.',
+    payloadChannels.map(([channel, bucket]) => [{ channel }, bucket.totalBytes]));
+  addMetric('neon_payload_max_bytes', 'gauge', 'Largest single payload by channel since the server started.',
+    payloadChannels.map(([channel, bucket]) => [{ channel }, bucket.maxBytes]));
+  addMetric('neon_rejections_total', 'counter', 'Rejected requests by kind (command, chat, ping, join) and reason.',
+    Object.entries(serverMetrics.rejections).map(([key, count]) => {
+      const [kind, reason] = key.split(':');
+      return [{ kind, reason }, count];
+    }));
+  const logStatus = logWriter.getStatus();
+  addMetric('neon_log_file_up', 'gauge', 'Whether the server log is being written (0 while a write failure waits for its retry).',
+    [[{}, logStatus.failing ? 0 : 1]]);
+  addMetric('neon_log_write_failures_total', 'counter', 'Failed attempts to open, write or rotate the server log.', [[{}, logStatus.failures]]);
+  addMetric('neon_log_lines_dropped_total', 'counter', 'Log lines left out of the file because it was failing or the disk fell behind.',
+    [[{}, logStatus.droppedLines]]);
+  addMetric('neon_uptime_seconds', 'gauge', 'Seconds since the server started.',
+    [[{}, Math.round((Date.now() - serverMetrics.startedAt) / 1000)]]);
+
+  return `${lines.join('\n')}\n`;
+}
+
+function requireAdminKey(req, res, next) {
+  if (!ADMIN_API_KEY) {
+    res.status(404).json({ error: 'ADMIN_API_DISABLED' });
+    return;
+  }
+
+  const header = req.get('authorization') || '';
+  const key = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+  // Comparing digests keeps timingSafeEqual's equal-length requirement without leaking the key's length.
+  const expected = createHash('sha256').update(ADMIN_API_KEY).digest();
+  const provided = createHash('sha256').update(key).digest();
+  if (!key || !timingSafeEqual(expected, provided)) {
+    console.warn(`[ADMIN][REJECT] ip=${req.ip} method=${req.method} path=${req.originalUrl}`);
+    res.status(401).json({ error: 'UNAUTHORIZED' });
+    return;
+  }
+
+  next();
+}
+
+function buildAdminRoomSummary(roomId, lobby) {
+  return {
+    roomId,
+    phase: getLobbyPhase(lobby),
+    mapId: lobby.mapId || 'MAP_1',
+    matchMode: lobby.matchMode || normalizeLobbyMatchMode(null, lobby.maxPlayers),
+    authority: lobby.serverAuthority ? 'server' : 'peer',
+    isPublic: !!lobby.isPublic,
+    playerCount: getJoinedSlots(lobby).length,
+    connectedCount: getConnectedSlots(lobby).length,
+    maxPlayers: lobby.maxPlayers || 2,
+    spectatorCount: getSpectators(lobby).length,
+    pausedForDisconnect: isLobbyPausedForDisconnect(lobby),
+    createdAt: lobby.createdAt || 0
+  };
+}
+
+// Session token digests stay on the server.
+function buildAdminRoomDetails(roomId, lobby) {
+  return {
+    ...buildAdminRoomSummary(roomId, lobby),
+    hostPlayerId: lobby.authorityPlayerId,
+    currentTurn: lobby.currentTurn,
+    turnOrder: lobby.turnOrder,
+    turnClock: lobby.turnClock ? buildTurnClockPayload(roomId, lobby) : null,
+    matchRules: lobby.matchRules || null,
+    series: lobby.series ? { matchNumber: lobby.series.matchNumber, scores: lobby.series.scores } : null,
+    players: lobby.playerSlots.map((slot) => ({
+      playerId: slot.playerId,
+      socketId: slot.socketId,
+      connectionState: slot.connectionState,
+      characterId: lobby.selectedCharacters?.[slot.playerId] || null,
+      isHost: slot.playerId === lobby.authorityPlayerId,
+      joinedAt: slot.joinedAt,
+      disconnectedAt: slot.disconnectedAt,
+      lastSeenAt: slot.lastSeenAt
+    })),
+    spectators: getSpectators(lobby).map((spectator) => ({
+      socketId: spectator.socketId,
+      perspective: spectator.perspective,
+      joinedAt: spectator.joinedAt
+    }))
+  };
+}
+
+// A kicked player loses their seat (and its session token) as if they had left, then gets disconnected.
+// Before the match starts the kicked seat simply opens up again. During a match it is vacated the way a disconnect
+// leaves it (its turns are skipped, and the match pauses if fewer than two seats stay connected), so the other
+// players keep their game; its session token is dropped, so the kicked client cannot reclaim it.
+function kickSocket(socket) {
+  const roomId = socket.data.roomId || socket.data.spectatingRoomId || null;
+  const playerId = socket.data.playerId || null;
+  const lobby = socket.data.roomId ? lobbies[socket.data.roomId] : null;
+  const slot = lobby ? getPlayerSlotBySocketId(lobby, socket.id) : null;
+  let seat = null;
+  if (slot && lobby.started) {
+    slot.sessionTokenHash = null;
+    releaseSocketFromLobby(socket, roomId);
+    markPlayerDisconnected(socket, roomId, lobby, 'kicked by admin');
+    seat = 'VACATED';
+  } else if (slot) {
+    removePlayerFromLobby(socket, roomId, lobby, `${playerId || 'A player'} was removed by the server admin`);
+    seat = 'OPENED';
+  }
+  leaveSpectatedLobby(socket);
+  if (roomId) {
+    socket.emit('lobby_closed', { roomId, reason: 'KICKED' });
+  }
+  socket.disconnect(true);
+  return { socketId: socket.id, roomId, playerId, seat };
+}
+
+function closeLobby(roomId, lobby, reason) {
+  io.to(roomId).emit('lobby_closed', { roomId, reason: reason.toUpperCase() });
+  getConnectedSlots(lobby).forEach((slot) => {
+    const slotSocket = io.sockets.sockets.get(slot.socketId);
+    if (slotSocket) {
+      releaseSocketFromLobby(slotSocket, roomId);
+    }
+  });
+  flushLobbyMetrics(roomId, lobby, reason);
+  console.log(`[ROOM][CLEANUP] room=${roomId} reason=${formatLogValue(reason)}`);
+  stopLobbySimulation(lobby);
+  stopTurnClock(lobby);
+  closeSpectatorFeed(roomId, lobby, reason);
+  delete lobbies[roomId];
+  forgetLobby(roomId);
+}
+
+adminRouter.get('/rooms', (req, res) => {
+  const rooms = Object.entries(lobbies)
+    .map(([roomId, lobby]) => buildAdminRoomSummary(roomId, lobby))
+    .sort((a, b) => a.createdAt - b.createdAt);
+  res.json({ rooms });
+});
+
+adminRouter.get('/rooms/:roomId', (req, res) => {
+  const lobby = lobbies[req.params.roomId];
+  if (!lobby) {
+    res.status(404).json({ error: 'ROOM_NOT_FOUND' });
+    return;
+  }
+  res.json(buildAdminRoomDetails(req.params.roomId, lobby));
+});
+
+adminRouter.delete('/rooms/:roomId', (req, res) => {
+  const { roomId } = req.params;
+  const lobby = lobbies[roomId];
+  if (!lobby) {
+    res.status(404).json({ error: 'ROOM_NOT_FOUND' });
+    return;
+  }
+  console.warn(`[ADMIN][CLOSE_ROOM] room=${roomId} ip=${req.ip} phase=${getLobbyPhase(lobby)} players=${getJoinedSlots(lobby).map((slot) => slot.playerId).join(',') || 'none'}`);
+  closeLobby(roomId, lobby, 'closed_by_admin');
+  res.json({ roomId, closed: true });
+});
+
+adminRouter.post('/sockets/:socketId/kick', (req, res) => {
+  const socket = io.sockets.sockets.get(req.params.socketId);
+  if (!socket) {
+    res.status(404).json({ error: 'SOCKET_NOT_FOUND' });
+    return;
+  }
+  const result = kickSocket(socket);
+  console.warn(`[ADMIN][KICK] socket=${result.socketId} room=${result.roomId || 'n/a'} player=${result.playerId || 'n/a'} seat=${result.seat || 'none'} ip=${req.ip}`);
+  res.json({ ...result, kicked: true });
+});
+
 io.on('connection', (socket) => {
   console.log(`User connected: ${socket.id}`);
   socket.data.connectedAt = Date.now();
   socket.data.roomId = null;
   socket.data.playerId = null;
+  socket.data.spectatingRoomId = null;
 
   // 1. Create Lobby
   socket.on('create_lobby', (payload = {}) => {
@@ -597,75 +1767,116 @@ io.on('connection', (socket) => {
     const mapData = payload?.mapData && typeof payload.mapData === 'object' ? payload.mapData : null;
     const hostAdminEnabled = !!payload?.hostAdminEnabled;
     const fogOfWarDisabled = !!payload?.fogOfWarDisabled;
+    const matchRules = payload?.matchRules && normalizeMatchRules ? normalizeMatchRules(payload.matchRules) : null;
+    const spectatorDelayMs = normalizeSpectatorDelayMs(payload?.spectatorDelayMs);
+    const isPublic = !!payload?.isPublic;
     const maxPlayers = getLobbyCapacityFromMapPayload(mapId, mapData);
+    const matchMode = getLobbyMatchModeFromMapPayload(mapId, mapData, maxPlayers);
     const turnOrder = PLAYER_IDS.slice(0, maxPlayers);
-    const roomId = Math.random().toString(36).substring(2, 6).toUpperCase();
+    const roomId = createRoomId();
     const playerSlots = createPlayerSlots(turnOrder, socket.id);
+    const serverAuthority = !!createServerSimulation;
+    leaveSpectatedLobby(socket);
     lobbies[roomId] = {
       playerSlots,
       authorityPlayerId: turnOrder[0] || PLAYER_ONE,
-      authoritySocketId: socket.id,
+      authoritySocketId: serverAuthority ? null : socket.id,
+      serverAuthority,
+      simulation: null,
       hostAdminEnabled,
       fogOfWarDisabled,
+      matchRules,
+      spectators: {},
+      spectatorDelayMs,
+      isPublic,
+      matchMode,
+      createdAt: Date.now(),
       gameState: null,
+      replay: null,
       selectedCharacters: createEmptyCharacterSelections(),
       mapId,
       mapData,
       currentTurn: turnOrder[0] || PLAYER_ONE,
       turnOrder,
       maxPlayers,
-      started: false
+      started: false,
+      series: null
     };
     socket.join(roomId);
     socket.data.roomId = roomId;
     socket.data.playerId = turnOrder[0] || PLAYER_ONE;
+    const sessionToken = issueSessionToken(playerSlots[0]);
     emitLobbyState(roomId, lobbies[roomId]);
+    scheduleLobbyPersist(roomId);
     socket.emit('lobby_created', {
       roomId,
       playerId: turnOrder[0] || PLAYER_ONE,
+      sessionToken,
       mapId,
       mapData,
-      authoritySocketId: socket.id,
+      authoritySocketId: lobbies[roomId].authoritySocketId,
+      serverAuthority,
+      hostPlayerId: turnOrder[0] || PLAYER_ONE,
       hostAdminEnabled,
-      fogOfWarDisabled
+      fogOfWarDisabled,
+      matchRules,
+      isPublic
     });
-    console.log(`[ROOM][CREATE] room=${roomId} hostSocket=${socket.id} player=${turnOrder[0] || PLAYER_ONE} map=${mapId} maxPlayers=${maxPlayers} hostAdmin=${hostAdminEnabled} fogOff=${fogOfWarDisabled}`);
+    console.log(`[ROOM][CREATE] room=${roomId} hostSocket=${socket.id} player=${turnOrder[0] || PLAYER_ONE} map=${mapId} maxPlayers=${maxPlayers} hostAdmin=${hostAdminEnabled} fogOff=${fogOfWarDisabled} customRules=${!!matchRules} spectatorDelayMs=${spectatorDelayMs} public=${isPublic} authority=${serverAuthority ? 'server' : 'peer'}`);
   });
 
   // 2. Join Lobby
   socket.on('join_lobby', (payload) => {
-    const { roomId, preferredPlayerId, restoreSession } = normalizeJoinLobbyPayload(payload);
+    const { roomId, preferredPlayerId, sessionToken, restoreSession } = normalizeJoinLobbyPayload(payload);
     const lobby = lobbies[roomId];
+    leaveSpectatedLobby(socket);
 
     if (!lobby) {
       emitJoinFailure(socket, restoreSession, roomId, 'ROOM_NOT_FOUND', 'Lobby not found or full');
       return;
     }
 
-    const slot = resolveJoinSlot(lobby, preferredPlayerId);
+    const { slot, reason } = resolveJoinSlot(lobby, preferredPlayerId, sessionToken);
     if (!slot) {
-      const reason = lobby.started ? 'REJOIN_SLOT_UNAVAILABLE' : 'LOBBY_FULL';
-      const message = lobby.started
-        ? 'Game is waiting for a disconnected player to reconnect'
-        : 'Lobby not found or full';
+      const message = reason === 'INVALID_SESSION_TOKEN'
+        ? 'That seat is reserved for its player. Ask the host for a new rejoin code.'
+        : lobby.started
+          ? 'Game is waiting for a disconnected player to reconnect'
+          : 'Lobby not found or full';
+      console.warn(`[ROOM][JOIN_REJECT] room=${roomId} socket=${socket.id} player=${preferredPlayerId || 'any'} reason=${reason}`);
       emitJoinFailure(socket, restoreSession, roomId, reason, message);
       return;
     }
 
-    if (slot.connectionState === 'open') {
+    const isNewSeat = slot.connectionState === 'open';
+    if (isNewSeat) {
       lobby.selectedCharacters = createEmptyCharacterSelections();
       lobby.gameState = null;
+      lobby.seatSync = {};
+      lobby.replay = null;
+      resetSpectatorFeed(lobby);
+      stopTurnClock(lobby);
       lobby.currentTurn = lobby.turnOrder?.[0] || PLAYER_ONE;
     }
 
     assignSocketToSlot(socket, roomId, lobby, slot);
+    if (isNewSeat) {
+      emitSessionToken(socket.id, roomId, slot, issueSessionToken(slot));
+    }
+    const migratedSlot = migrateLobbyAuthority(roomId, lobby);
     emitLobbyState(roomId, lobby);
+    if (migratedSlot && migratedSlot !== slot) {
+      handOverLobbyAuthority(roomId, lobby, migratedSlot);
+    }
+    scheduleLobbyPersist(roomId);
 
     const connectedCount = getConnectedSlots(lobby).length;
     console.log(`[ROOM][JOIN] room=${roomId} socket=${socket.id} player=${slot.playerId} restore=${restoreSession} connected=${connectedCount}/${lobby.maxPlayers} phase=${getLobbyPhase(lobby)}`);
 
     if (!lobby.started && isLobbyFull(lobby)) {
       lobby.started = true;
+      lobby.replay = createLobbyReplay(roomId, lobby);
+      startLobbySimulation(roomId, lobby);
       emitLobbyState(roomId, lobby);
       emitGameStart(roomId, lobby);
       console.log(`[ROOM][START] room=${roomId} players=${getLobbyPlayerIds(lobby).join(',')} map=${lobby.mapId || 'MAP_1'}`);
@@ -680,19 +1891,170 @@ io.on('connection', (socket) => {
         reason: restoreSession ? 'session_restore' : 'join_lobby',
         disconnectedPlayerIds: getDisconnectedSlots(lobby).map((entry) => entry.playerId),
         connectedPlayerIds: getConnectedSlots(lobby).map((entry) => entry.playerId),
+        pausedForDisconnect: isLobbyPausedForDisconnect(lobby),
         phase: getLobbyPhase(lobby)
       });
+      syncTurnClock(roomId, lobby);
       emitGameResume(socket, roomId, lobby, slot.playerId);
+      scheduleDisconnectedTurnSkip(roomId, lobby);
+      if (lobby.series) {
+        emitRematchState(roomId, lobby);
+      }
+    }
+  });
+
+  // accept toggles this player's vote; rotateTurnOrder is only taken from the host.
+  socket.on('rematch_vote', (payload = {}) => {
+    const roomId = typeof payload?.roomId === 'string' ? payload.roomId : '';
+    const lobby = lobbies[roomId];
+    const playerId = lobby ? getPlayerIdForSocket(lobby, socket.id) : null;
+    if (!lobby || !playerId) {
+      socket.emit('error_message', 'Only seated players can vote for a rematch');
+      return;
+    }
+    if (!isLobbyMatchOver(lobby) || !lobby.series) {
+      socket.emit('error_message', 'The match is not over yet');
+      return;
+    }
+
+    const series = lobby.series;
+    if (typeof payload.rotateTurnOrder === 'boolean' && isLobbyHostSocket(lobby, socket.id)) {
+      series.rotateTurnOrder = payload.rotateTurnOrder;
+    }
+    if (typeof payload.accept === 'boolean') {
+      if (payload.accept) {
+        series.rematchVotes[playerId] = true;
+      } else {
+        delete series.rematchVotes[playerId];
+      }
+      console.log(`[ROOM][REMATCH_VOTE] room=${roomId} player=${playerId} accept=${payload.accept}`);
+    }
+
+    if (!startRematchIfAgreed(roomId, lobby)) {
+      emitRematchState(roomId, lobby);
     }
   });
 
+  // Host only. A connected seat receives its new token directly; for a disconnected seat it goes back to the host,
+  // who passes it on as a rejoin code to whoever should take the seat.
+  socket.on('reissue_session_token', (payload = {}) => {
+    const roomId = typeof payload?.roomId === 'string' ? payload.roomId : '';
+    const lobby = lobbies[roomId];
+    if (!lobby || !isLobbyHostSocket(lobby, socket.id)) {
+      socket.emit('error_message', 'Only the host can reissue seat codes');
+      return;
+    }
+
+    const slot = getPlayerSlotByPlayerId(lobby, payload?.playerId);
+    if (!slot || slot.connectionState === 'open') {
+      socket.emit('error_message', 'That seat has no player to reissue a code for');
+      return;
+    }
+
+    const sessionToken = issueSessionToken(slot);
+    scheduleLobbyPersist(roomId);
+    console.log(`[ROOM][TOKEN_REISSUE] room=${roomId} player=${slot.playerId} socket=${socket.id} seat=${slot.connectionState}`);
+    if (slot.socketId) {
+      emitSessionToken(slot.socketId, roomId, slot, sessionToken);
+    }
+    socket.emit('session_token_reissued', {
+      roomId,
+      playerId: slot.playerId,
+      sessionToken: slot.socketId ? null : sessionToken
+    });
+  });
+
   socket.on('leave_lobby', (roomId) => {
     const lobby = lobbies[roomId];
     if (!lobby) return;
 
+    if (removeSpectator(socket, roomId, lobby)) return;
     removePlayerFromLobby(socket, roomId, lobby, 'Opponent left the lobby');
   });
 
+  socket.on('lobby_browser_subscribe', () => {
+    socket.join(LOBBY_BROWSER_ROOM);
+    socket.emit('lobby_list', { lobbies: buildLobbyList() });
+  });
+
+  socket.on('lobby_browser_unsubscribe', () => {
+    socket.leave(LOBBY_BROWSER_ROOM);
+  });
+
+  // Spectators watch any room, full or started, without taking a player slot.
+  socket.on('join_as_spectator', (payload = {}) => {
+    const roomId = typeof payload?.roomId === 'string' ? payload.roomId : '';
+    const lobby = lobbies[roomId];
+    if (!lobby) {
+      socket.emit('error_message', 'Lobby not found');
+      return;
+    }
+
+    if (socket.data.roomId) {
+      socket.emit('error_message', 'Leave your current lobby before spectating');
+      return;
+    }
+
+    const perspective = typeof payload?.perspective === 'string' ? payload.perspective : getDefaultSpectatorPerspective(lobby);
+    const perspectiveRejection = getSpectatorPerspectiveRejection(lobby, perspective);
+    if (perspectiveRejection) {
+      emitSpectatorPerspectiveRejection(socket, roomId, perspective, perspectiveRejection);
+      return;
+    }
+
+    leaveSpectatedLobby(socket);
+
+    const spectator = { socketId: socket.id, perspective, seq: 0, view: null, visibleUnitIds: null, joinedAt: Date.now() };
+    lobby.spectators = lobby.spectators || {};
+    lobby.spectators[socket.id] = spectator;
+    socket.join(getSpectatorRoomId(roomId));
+    socket.data.spectatingRoomId = roomId;
+
+    const gameState = lobby.spectatorGameState ? buildSpectatorView(lobby.spectatorGameState, perspective, spectatorRedaction) : null;
+    const syncSeq = gameState ? rememberSpectatorView(spectator, gameState) : 0;
+    socket.emit('spectator_joined', {
+      roomId,
+      perspective,
+      delayMs: lobby.spectatorDelayMs || 0,
+      mapId: lobby.mapId || 'MAP_1',
+      mapData: lobby.mapData || null,
+      playerIds: getLobbyPlayerIds(lobby),
+      turnOrder: lobby.turnOrder,
+      serverAuthority: !!lobby.serverAuthority,
+      hostPlayerId: lobby.authorityPlayerId,
+      fogOfWarDisabled: !!lobby.fogOfWarDisabled,
+      phase: gameState ? 'IN_PROGRESS' : (lobby.spectatorStarted ? 'CHARACTER_SELECTION' : 'LOBBY'),
+      gameState,
+      syncSeq
+    });
+    emitLobbyState(roomId, lobby);
+    console.log(`[ROOM][SPECTATE] room=${roomId} socket=${socket.id} perspective=${perspective} delayMs=${lobby.spectatorDelayMs || 0} spectators=${getSpectators(lobby).length}`);
+  });
+
+  socket.on('spectator_set_perspective', (payload = {}) => {
+    const roomId = typeof payload?.roomId === 'string' ? payload.roomId : '';
+    const lobby = lobbies[roomId];
+    const spectator = lobby ? getSpectatorBySocketId(lobby, socket.id) : null;
+    if (!spectator) return;
+
+    const perspectiveRejection = getSpectatorPerspectiveRejection(lobby, payload?.perspective);
+    if (perspectiveRejection) {
+      emitSpectatorPerspectiveRejection(socket, roomId, payload?.perspective, perspectiveRejection);
+      return;
+    }
+
+    spectator.perspective = payload.perspective;
+    socket.emit('spectator_perspective', { roomId, perspective: spectator.perspective });
+    if (lobby.spectatorGameState) {
+      emitFullSyncToSpectator(lobby, spectator, {
+        actorPlayerId: null,
+        turnBefore: lobby.spectatorGameState.currentTurn,
+        turnAfter: lobby.spectatorGameState.currentTurn,
+        timestamp: Date.now()
+      });
+    }
+  });
+
   socket.on('character_select', (payload = {}) => {
     const { roomId, charId } = payload;
     if (!roomId || typeof charId !== 'string') {
@@ -726,15 +2088,23 @@ io.on('connection', (socket) => {
     io.to(roomId).emit('character_selection_update', {
       playerCharacters: lobby.selectedCharacters
     });
+    queueSpectatorEvent(roomId, lobby, 'character_selection_update', {
+      playerCharacters: lobby.selectedCharacters
+    });
+    scheduleLobbyPersist(roomId);
 
     const requiredPlayerIds = getJoinedSlots(lobby).map((slot) => slot.playerId);
     const allSelected = requiredPlayerIds.length > 0
       && requiredPlayerIds.every((id) => lobby.selectedCharacters?.[id]);
 
     if (allSelected) {
+      lobby.simulation?.applyCharacterSelection(lobby.selectedCharacters);
       io.to(roomId).emit('character_selection_complete', {
         playerCharacters: lobby.selectedCharacters
       });
+      queueSpectatorEvent(roomId, lobby, 'character_selection_complete', {
+        playerCharacters: lobby.selectedCharacters
+      });
     }
   });
 
@@ -742,9 +2112,11 @@ io.on('connection', (socket) => {
   socket.on('authoritative_command_request', (payload = {}) => {
     const { roomId, action } = payload;
     let data = payload.data;
-    const reject = (reason) => {
-      console.warn(`[AUTH][REJECT] room=${roomId || 'n/a'} socket=${socket.id} action=${action || 'UNKNOWN'} reason=${reason}`);
-      socket.emit('command_rejected', { action: action || 'UNKNOWN', reason });
+    const reject = (reason, details = {}) => {
+      const field = details.field ? ` field=${details.field}` : '';
+      console.warn(`[AUTH][REJECT] room=${roomId || 'n/a'} socket=${socket.id} action=${action || 'UNKNOWN'} reason=${reason}${field}`);
+      countRejection('command', reason);
+      socket.emit('command_rejected', { action: action || 'UNKNOWN', reason, ...details });
     };
 
     if (action !== 'SYNC_STATE') {
@@ -761,12 +2133,26 @@ io.on('connection', (socket) => {
       return;
     }
 
+    const retryAfterMs = takeCommandToken(
+      socket.data.commandBuckets || (socket.data.commandBuckets = {}),
+      action === 'SYNC_STATE' ? 'sync' : 'command'
+    );
+    if (retryAfterMs > 0) {
+      reject('RATE_LIMITED', { retryAfterMs });
+      return;
+    }
+
     const lobby = lobbies[roomId];
     if (!lobby) {
       reject('ROOM_NOT_FOUND');
       return;
     }
 
+    if (getSpectatorBySocketId(lobby, socket.id)) {
+      reject('SPECTATOR_READ_ONLY');
+      return;
+    }
+
     if (!getPlayerSlotBySocketId(lobby, socket.id)) {
       reject('NOT_IN_ROOM');
       return;
@@ -782,17 +2168,18 @@ io.on('connection', (socket) => {
       return;
     }
 
+    const payloadRejection = validateCommandPayload(action, data, lobby.gameState?.mapBounds);
+    if (payloadRejection) {
+      reject(payloadRejection.reason, { field: payloadRejection.field });
+      return;
+    }
+
     if (action === 'SYNC_STATE') {
       if (socket.id !== lobby.authoritySocketId) {
         reject('NOT_STATE_AUTHORITY');
         return;
       }
 
-      if (!data || typeof data !== 'object') {
-        reject('INVALID_STATE_PAYLOAD');
-        return;
-      }
-
       const turnBefore = lobby.currentTurn;
       if (typeof data.currentTurn === 'string' && data.currentTurn.length > 0) {
         lobby.currentTurn = data.currentTurn;
@@ -802,20 +2189,23 @@ io.on('connection', (socket) => {
         ...(lobby.gameState || {}),
         ...data
       };
+      recordReplayCheckpoint(lobby);
+      recordLobbySeriesResult(roomId, lobby);
+      scheduleLobbyPersist(roomId);
       if (syncBytes >= 0) {
         console.log(`[AUTH][SYNC] room=${roomId} socket=${socket.id} bytes=${syncBytes} turn=${lobby.currentTurn}`);
       }
 
-      io.to(roomId).emit('authoritative_command', {
-        action,
-        data,
-        meta: {
-          actorPlayerId: getPlayerIdForSocket(lobby, socket.id),
-          turnBefore,
-          turnAfter: lobby.currentTurn,
-          timestamp: Date.now()
-        }
-      });
+      const meta = {
+        actorPlayerId: getPlayerIdForSocket(lobby, socket.id),
+        turnBefore,
+        turnAfter: lobby.currentTurn,
+        timestamp: Date.now()
+      };
+      emitSyncStateToSeats(roomId, lobby, data, meta);
+      queueSpectatorSync(roomId, lobby, meta);
+      syncTurnClock(roomId, lobby);
+      scheduleDisconnectedTurnSkip(roomId, lobby);
       return;
     }
 
@@ -826,7 +2216,7 @@ io.on('connection', (socket) => {
     }
 
     if (action === 'ADMIN_SET_UNIT_STATS') {
-      if (!lobby.hostAdminEnabled || socket.id !== lobby.authoritySocketId) {
+      if (!lobby.hostAdminEnabled || !isLobbyHostSocket(lobby, socket.id)) {
         reject('ADMIN_ONLY');
         return;
       }
@@ -846,11 +2236,6 @@ io.on('connection', (socket) => {
       data = { ...(data || {}), playerId: actorPlayerId };
     }
 
-    const turnBefore = lobby.currentTurn;
-    if (action === 'SKIP_TURN') {
-      lobby.currentTurn = getNextTurn(lobby.currentTurn, lobby.turnOrder);
-    }
-
     recordLobbyMetric(roomId, lobby, 'auth', action, data);
 
     if (action === 'MOVE') {
@@ -859,32 +2244,179 @@ io.on('connection', (socket) => {
       console.log(`[AUTH][MOVE] room=${roomId} actor=${actorPlayerId} turn=${lobby.currentTurn} pathLen=${pathLen} target=${target ? `${target.x},${target.z}` : 'n/a'}`);
     }
 
-    io.to(lobby.authoritySocketId).emit('authoritative_command', {
-      action,
-      data,
-      meta: {
-        actorPlayerId,
-        turnBefore,
-        turnAfter: lobby.currentTurn,
+    const rejection = forwardCommandToAuthority(roomId, lobby, action, data, actorPlayerId);
+    if (rejection) {
+      reject(rejection);
+    }
+  });
+
+  socket.on('chat_message', (payload = {}) => {
+    const roomId = typeof payload?.roomId === 'string' ? payload.roomId : '';
+    const lobby = lobbies[roomId];
+    const slot = lobby ? getPlayerSlotBySocketId(lobby, socket.id) : null;
+    const reject = (reason, retryAfterMs = 0) => {
+      console.warn(`[CHAT][REJECT] room=${roomId || 'n/a'} socket=${socket.id} kind=chat reason=${reason}`);
+      countRejection('chat', reason);
+      socket.emit('chat_rejected', { kind: 'chat', reason, retryAfterMs });
+    };
+
+    if (!slot) {
+      reject('NOT_IN_ROOM');
+      return;
+    }
+
+    const text = typeof payload.text === 'string' ? payload.text.replace(/\s+/g, ' ').trim().slice(0, CHAT_MAX_LENGTH) : '';
+    const channel = payload.channel === 'TEAM' ? 'TEAM' : 'ALL';
+    if (!text) {
+      reject('EMPTY_MESSAGE');
+      return;
+    }
+    if (channel === 'TEAM' && !TEAM_MATCH_MODES.has(getLobbyMatchMode(lobby))) {
+      reject('TEAM_CHAT_UNAVAILABLE');
+      return;
+    }
+
+    const retryAfterMs = takeRateLimitSlot(socket, 'chat', CHAT_RATE_LIMIT);
+    if (retryAfterMs > 0) {
+      reject('RATE_LIMITED', retryAfterMs);
+      return;
+    }
+
+    const recipients = channel === 'TEAM' ? getAlliedSlots(lobby, slot.playerId) : getConnectedSlots(lobby);
+    emitToSlots(recipients, 'chat_message', {
+      roomId,
+      id: createChatEventId(),
+      playerId: slot.playerId,
+      channel,
+      text,
+      timestamp: Date.now()
+    });
+  });
+
+  socket.on('tile_ping', (payload = {}) => {
+    const roomId = typeof payload?.roomId === 'string' ? payload.roomId : '';
+    const lobby = lobbies[roomId];
+    const slot = lobby ? getPlayerSlotBySocketId(lobby, socket.id) : null;
+    const reject = (reason, retryAfterMs = 0) => {
+      console.warn(`[CHAT][REJECT] room=${roomId || 'n/a'} socket=${socket.id} kind=ping reason=${reason}`);
+      countRejection('ping', reason);
+      socket.emit('chat_rejected', { kind: 'ping', reason, retryAfterMs });
+    };
+
+    if (!slot) {
+      reject('NOT_IN_ROOM');
+      return;
+    }
+    if (!lobby.gameState) {
+      reject('GAME_NOT_STARTED');
+      return;
+    }
+
+    const { x, z } = payload;
+    const bounds = lobby.gameState.mapBounds;
+    const isOnMap = Number.isInteger(x) && Number.isInteger(z) && (!bounds || (
+      x >= bounds.originX && x < bounds.originX + bounds.width
+      && z >= bounds.originZ && z < bounds.originZ + bounds.height
+    ));
+    if (!isOnMap) {
+      reject('INVALID_TILE');
+      return;
+    }
+
+    const retryAfterMs = takeRateLimitSlot(socket, 'ping', PING_RATE_LIMIT);
+    if (retryAfterMs > 0) {
+      reject('RATE_LIMITED', retryAfterMs);
+      return;
+    }
+
+    emitToSlots(getAlliedSlots(lobby, slot.playerId), 'tile_ping', {
+      roomId,
+      id: createChatEventId(),
+      playerId: slot.playerId,
+      x,
+      z,
+      createdAt: Date.now()
+    });
+  });
+
+  // A client that missed a SYNC_DELTA (sequence gap) asks for its full view again.
+  socket.on('sync_resync_request', (payload = {}) => {
+    const roomId = typeof payload?.roomId === 'string' ? payload.roomId : '';
+    const lobby = lobbies[roomId];
+    const spectator = lobby ? getSpectatorBySocketId(lobby, socket.id) : null;
+    if (spectator && lobby.spectatorGameState) {
+      console.log(`[SYNC][RESYNC] room=${roomId} spectator=${socket.id} lastSeq=${payload?.lastSeq ?? 'n/a'} seq=${spectator.seq}`);
+      emitFullSyncToSpectator(lobby, spectator, {
+        actorPlayerId: null,
+        turnBefore: lobby.spectatorGameState.currentTurn,
+        turnAfter: lobby.spectatorGameState.currentTurn,
         timestamp: Date.now()
-      }
+      });
+      return;
+    }
+
+    const slot = lobby ? getPlayerSlotBySocketId(lobby, socket.id) : null;
+    if (!slot || !lobby.gameState) return;
+
+    console.log(`[SYNC][RESYNC] room=${roomId} player=${slot.playerId} lastSeq=${payload?.lastSeq ?? 'n/a'} seq=${getSeatSyncState(lobby, slot.playerId)?.seq ?? 'n/a'}`);
+    emitFullSyncToSeat(roomId, lobby, slot, buildSyncStateForPlayer(lobby, lobby.gameState, slot.playerId), {
+      actorPlayerId: null,
+      turnBefore: lobby.currentTurn,
+      turnAfter: lobby.currentTurn,
+      timestamp: Date.now()
     });
   });
 
+  socket.on('replay_request', (payload = {}) => {
+    const roomId = typeof payload?.roomId === 'string' ? payload.roomId : '';
+    const lobby = lobbies[roomId];
+    if (!lobby || !getPlayerSlotBySocketId(lobby, socket.id)) {
+      socket.emit('error_message', 'Lobby not found');
+      return;
+    }
+
+    // Checkpoints are unredacted, so a fogged match only hands out its replay once it is decided.
+    if (redactSyncStateForPlayer && !lobby.fogOfWarDisabled && lobby.gameState && !lobby.gameState.winner) {
+      socket.emit('error_message', 'Replays of fogged matches unlock once the match is over');
+      return;
+    }
+
+    if (!lobby.replay || lobby.replay.checkpoints.length === 0) {
+      socket.emit('error_message', 'No replay has been recorded for this match yet');
+      return;
+    }
+
+    socket.emit('replay_data', { roomId, replay: buildReplayExport(lobby) });
+    console.log(`[REPLAY][EXPORT] room=${roomId} socket=${socket.id} commands=${lobby.replay.commands.length} checkpoints=${lobby.replay.checkpoints.length}`);
+  });
+
   // 3. Game Actions Relay
-  // We simply relay the action to the OTHER player in the room.
+  // In host-peer rooms the authority relays its animation cues to the OTHER players, each filtered to what that
+  // seat can see. Server-authority rooms get their cues from the simulation, so nothing is relayed there.
   socket.on('game_action', (payload = {}) => {
     // payload should contain { roomId, action, data }
     const lobby = payload.roomId ? lobbies[payload.roomId] : null;
-    if (payload.roomId && lobby && getPlayerSlotBySocketId(lobby, socket.id) && !isLobbyPausedForDisconnect(lobby)) {
-      recordLobbyMetric(payload.roomId, lobby, 'relay', payload.action || 'UNKNOWN', payload.data);
-      socket.to(payload.roomId).emit('game_action', payload);
-      // console.log(`Action forwarded in ${payload.roomId}:`, payload.action);
+    if (!payload.roomId || !lobby || !getPlayerSlotBySocketId(lobby, socket.id) || isLobbyPausedForDisconnect(lobby)) return;
+
+    const reason = lobby.serverAuthority
+      ? 'SERVER_AUTHORITY'
+      : socket.id !== lobby.authoritySocketId
+        ? 'NOT_AUTHORITY'
+        : !RELAYED_CUE_ACTIONS.has(payload.action) ? 'UNSUPPORTED_CUE' : null;
+    if (reason) {
+      countRejection('relay', reason);
+      console.warn(`[RELAY][REJECT] room=${payload.roomId} socket=${socket.id} action=${payload.action || 'UNKNOWN'} reason=${reason}`);
+      return;
     }
+
+    recordLobbyMetric(payload.roomId, lobby, 'relay', payload.action, payload.data);
+    emitCueToSeats(payload.roomId, lobby, payload.action, payload.data, socket.id);
+    queueSpectatorCue(payload.roomId, lobby, payload.action, payload.data);
   });
 
   socket.on('disconnect', (reason) => {
-    console.log(`User disconnected: ${socket.id} | reason=${reason}`);
+    console.log(`User disconnected: ${socket.id} | reason=${formatLogValue(reason)}`);
+    leaveSpectatedLobby(socket);
     const roomId = socket.data?.roomId;
     if (!roomId) return;
     const lobby = lobbies[roomId];
@@ -894,9 +2426,11 @@ io.on('connection', (socket) => {
 });
 
 io.engine.on('connection_error', (err) => {
-  console.warn(`[SOCKET][ENGINE_ERROR] code=${err.code} message=${err.message} context=${JSON.stringify(err.context || {})}`);
+  console.warn(`[SOCKET][ENGINE_ERROR] code=${err.code} message=${formatLogValue(err.message)} context=${formatLogValue(JSON.stringify(err.context || {}))}`);
 });
 
+await restorePersistedLobbies();
+
 const PORT = process.env.PORT || 3001;
 
 httpServer.listen(PORT, () => {
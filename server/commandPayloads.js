@@ -0,0 +1,153 @@
+import { PLAYER_IDS } from './players.js';
+
+// Every authoritative action has a schema listing the fields it may carry and what each must look like. A payload
+// with a missing, malformed or unknown field is rejected before it reaches the authority. SYNC_STATE is the whole
+// game state, so only its turn fields are checked. Coordinates are bounded by the room's map once one is known.
+const COMMAND_PAYLOAD_MAX_BYTES = 4096;
+const COMMAND_ID_PATTERN = /^[\w.-]{1,80}$/;
+const COMMAND_TYPE_PATTERN = /^[A-Z][A-Z0-9_]{0,39}$/;
+const MAX_COMMAND_PATH_LENGTH = 32;
+const MAX_ADMIN_STAT_VALUE = 9999;
+const UNBOUNDED_MAP = { originX: -1024, originZ: -1024, width: 2048, height: 2048 };
+
+// Per socket: a burst of `capacity` requests, refilled at `refillPerSecond`. The authority's snapshots are
+// coalesced to at most four a second, so they get their own, larger bucket.
+export const COMMAND_RATE_LIMITS = {
+  command: { capacity: 12, refillPerSecond: 4 },
+  sync: { capacity: 20, refillPerSecond: 8 }
+};
+
+const isPlainObject = (value) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+function getCoordinateRejection(value, origin, extent) {
+  if (!Number.isInteger(value)) return 'INVALID_COORDINATE';
+  return value >= origin && value < origin + extent ? null : 'COORDINATE_OUT_OF_BOUNDS';
+}
+
+function getTileRejection(value, bounds) {
+  if (!isPlainObject(value)) return 'INVALID_POSITION';
+  return getCoordinateRejection(value.x, bounds.originX, bounds.width)
+    || getCoordinateRejection(value.z, bounds.originZ, bounds.height);
+}
+
+// Each check returns null for a valid value, otherwise the rejection reason.
+const PAYLOAD_FIELD_CHECKS = {
+  id: (value) => (typeof value === 'string' && COMMAND_ID_PATTERN.test(value) ? null : 'INVALID_ID'),
+  type: (value) => (typeof value === 'string' && COMMAND_TYPE_PATTERN.test(value) ? null : 'INVALID_TYPE'),
+  playerId: (value) => (PLAYER_IDS.includes(value) ? null : 'INVALID_PLAYER_ID'),
+  count: (value) => (Number.isInteger(value) && value >= 0 ? null : 'INVALID_COUNT'),
+  x: (value, bounds) => getCoordinateRejection(value, bounds.originX, bounds.width),
+  z: (value, bounds) => getCoordinateRejection(value, bounds.originZ, bounds.height),
+  tile: getTileRejection,
+  path: (value, bounds) => {
+    if (!Array.isArray(value) || value.length === 0) return 'INVALID_PATH';
+    if (value.length > MAX_COMMAND_PATH_LENGTH) return 'PATH_TOO_LONG';
+    for (const step of value) {
+      const rejection = getTileRejection(step, bounds);
+      if (rejection) return rejection;
+    }
+    return null;
+  },
+  stat: (value) => (Number.isFinite(value) && value >= 0 && value <= MAX_ADMIN_STAT_VALUE ? null : 'INVALID_STAT'),
+  zoneSize: (value) => (Number.isInteger(value) && value >= 2 && value <= 4 ? null : 'INVALID_ZONE_SIZE')
+};
+
+// A trailing '?' marks an optional field. `playerId` is optional wherever the server fills it in from the seat.
+const UNIT_TARGET_FIELDS = { sourceUnitId: 'id', targetUnitId: 'id' };
+const TILE_ACTION_FIELDS = { x: 'x', z: 'z', playerId: 'playerId?' };
+const UNIT_SELF_DESTRUCT_FIELDS = { unitId: 'id', playerId: 'playerId?', unitType: 'type?', position: 'tile?' };
+const COMMAND_PAYLOAD_SCHEMAS = {
+  SYNC_STATE: { open: true, maxBytes: null, fields: { currentTurn: 'playerId?', turnCount: 'count?' } },
+  ADMIN_SET_UNIT_STATS: {
+    fields: {
+      unitId: 'id',
+      hp: 'stat?',
+      maxHp: 'stat?',
+      energy: 'stat?',
+      maxEnergy: 'stat?',
+      attack: 'stat?',
+      range: 'stat?',
+      movement: 'stat?',
+      level: 'stat?'
+    }
+  },
+  FLUX_TOWER_ATTACK_UPGRADE: { fields: { unitId: 'id' } },
+  MOVE: { fields: { unitId: 'id', path: 'path', targetX: 'x?', targetZ: 'z?' } },
+  ATTACK: { fields: { attackerId: 'id', targetId: 'id' } },
+  SKIP_TURN: { fields: {} },
+  TELEPORT: { fields: { sourceUnitId: 'id', x: 'x', z: 'z' } },
+  PLACE_UNIT: { fields: { playerId: 'playerId?', position: 'tile', cardId: 'id', cardType: 'type?', unitId: 'id?' } },
+  ION_CANNON_STRIKE: { fields: TILE_ACTION_FIELDS },
+  FORWARD_BASE_PLACE: { fields: TILE_ACTION_FIELDS },
+  MASS_RETREAT_EXECUTE: { fields: { ...TILE_ACTION_FIELDS, size: 'zoneSize?' } },
+  FREEZE_TARGET: { fields: UNIT_TARGET_FIELDS },
+  HEAL_TARGET: { fields: UNIT_TARGET_FIELDS },
+  RESTORE_ENERGY_TARGET: { fields: UNIT_TARGET_FIELDS },
+  IMMORTALITY_SHIELD_TARGET: { fields: { playerId: 'playerId?', targetUnitId: 'id' } },
+  DISPEL_TARGET: { fields: UNIT_TARGET_FIELDS },
+  MIND_CONTROL_TARGET: { fields: UNIT_TARGET_FIELDS },
+  MIND_CONTROL_BREAK: { fields: { hackerId: 'id' } },
+  LOGISTICS_DELAY_EXECUTE: { fields: { playerId: 'playerId?' } },
+  SUMMON_ACTIVATE: { fields: { unitId: 'id' } },
+  SUMMON_PLACE: { fields: { x: 'x', z: 'z', unitId: 'id?' } },
+  WALL_CHAIN_PLACE: { fields: { x: 'x', z: 'z', unitId: 'id?' } },
+  CHARACTER_ACTION_TRIGGER: { fields: { actionId: 'id' } },
+  SUICIDE_PROTOCOL: { fields: UNIT_SELF_DESTRUCT_FIELDS },
+  DRONE_DETONATE: { fields: UNIT_SELF_DESTRUCT_FIELDS },
+  SHOP_BUY: { fields: { playerId: 'playerId?', itemId: 'id' } },
+  SHOP_REFUND: { fields: { playerId: 'playerId?', itemId: 'id' } },
+  SHOP_REROLL: { fields: { playerId: 'playerId?' } },
+  TALENT_CHOOSE: { fields: { playerId: 'playerId?', talentId: 'id' } }
+};
+
+// Estimated JSON size of a payload, -1 when it cannot be serialized.
+export function estimatePayloadBytes(payload) {
+  try {
+    return Buffer.byteLength(JSON.stringify(payload ?? null), 'utf8');
+  } catch (error) {
+    return -1;
+  }
+}
+
+// Returns null when `data` matches the action's schema, otherwise { reason, field }. `mapBounds` is the room's
+// once its match has a state; until then coordinates are only checked for being integers in a sane range.
+export function validateCommandPayload(action, data, mapBounds = UNBOUNDED_MAP) {
+  const schema = COMMAND_PAYLOAD_SCHEMAS[action];
+  if (!schema) return { reason: 'UNSUPPORTED_ACTION', field: null };
+  if (!isPlainObject(data)) return { reason: 'INVALID_PAYLOAD', field: null };
+  if (schema.maxBytes !== null && estimatePayloadBytes(data) > (schema.maxBytes ?? COMMAND_PAYLOAD_MAX_BYTES)) {
+    return { reason: 'PAYLOAD_TOO_LARGE', field: null };
+  }
+
+  if (!schema.open) {
+    const unexpectedField = Object.keys(data).find((field) => !Object.hasOwn(schema.fields, field));
+    if (unexpectedField) return { reason: 'UNEXPECTED_FIELD', field: unexpectedField };
+  }
+
+  const bounds = mapBounds || UNBOUNDED_MAP;
+  for (const [field, spec] of Object.entries(schema.fields)) {
+    const optional = spec.endsWith('?');
+    const value = data[field];
+    if (value === undefined || value === null) {
+      if (optional) continue;
+      return { reason: 'MISSING_FIELD', field };
+    }
+    const reason = PAYLOAD_FIELD_CHECKS[optional ? spec.slice(0, -1) : spec](value, bounds);
+    if (reason) return { reason, field };
+  }
+  return null;
+}
+
+// Returns 0 and spends a token when the bucket has one, otherwise how long until it will. `buckets` is the
+// socket's own store (kind -> { tokens, refilledAt }), filled in on first use.
+export function takeCommandToken(buckets, kind, now = Date.now()) {
+  const limit = COMMAND_RATE_LIMITS[kind];
+  const bucket = buckets[kind] || (buckets[kind] = { tokens: limit.capacity, refilledAt: now });
+  bucket.tokens = Math.min(limit.capacity, bucket.tokens + ((now - bucket.refilledAt) / 1000) * limit.refillPerSecond);
+  bucket.refilledAt = now;
+  if (bucket.tokens < 1) {
+    return Math.ceil(((1 - bucket.tokens) / limit.refillPerSecond) * 1000);
+  }
+  bucket.tokens -= 1;
+  return 0;
+}
@@ -0,0 +1,119 @@
+import fs from 'fs';
+import path from 'path';
+import { formatLogValue } from './logging.js';
+import { PLAYER_ONE, createEmptyCharacterSelections, normalizeLobbyMatchMode } from './players.js';
+import { normalizeSpectatorDelayMs } from './spectators.js';
+
+// Lobby records and the built-in stores. How rooms are persisted and restored is described in server.js.
+export const LOBBY_RECORD_VERSION = 1;
+
+export function createMemoryLobbyStore() {
+  return {
+    load: async () => [],
+    save: async () => {},
+    remove: async () => {}
+  };
+}
+
+export function createFileLobbyStore(directory) {
+  const getRecordPath = (roomId) => path.join(directory, `${roomId}.json`);
+
+  return {
+    async load() {
+      await fs.promises.mkdir(directory, { recursive: true });
+      const entries = [];
+      for (const fileName of await fs.promises.readdir(directory)) {
+        if (!fileName.endsWith('.json')) continue;
+        try {
+          const record = JSON.parse(await fs.promises.readFile(path.join(directory, fileName), 'utf8'));
+          entries.push({ roomId: fileName.replace(/\.json$/i, ''), record });
+        } catch (error) {
+          console.warn(`[STORE][SKIP] file=${formatLogValue(fileName)} reason=${formatLogValue(error.message)}`);
+        }
+      }
+      return entries;
+    },
+    async save(roomId, record) {
+      await fs.promises.mkdir(directory, { recursive: true });
+      // Write-then-rename so a crash mid-write never leaves a truncated record behind.
+      const tempPath = `${getRecordPath(roomId)}.tmp`;
+      await fs.promises.writeFile(tempPath, JSON.stringify(record));
+      await fs.promises.rename(tempPath, getRecordPath(roomId));
+    },
+    async remove(roomId) {
+      await fs.promises.rm(getRecordPath(roomId), { force: true });
+    }
+  };
+}
+
+// Only durable match data is stored: sockets, the simulation and replication baselines are rebuilt on restore.
+export function serializeLobby(lobby, savedAt = Date.now()) {
+  return {
+    version: LOBBY_RECORD_VERSION,
+    savedAt,
+    playerSlots: lobby.playerSlots.map((slot) => ({ ...slot, socketId: null })),
+    authorityPlayerId: lobby.authorityPlayerId,
+    serverAuthority: !!lobby.serverAuthority,
+    hostAdminEnabled: !!lobby.hostAdminEnabled,
+    fogOfWarDisabled: !!lobby.fogOfWarDisabled,
+    matchRules: lobby.matchRules || null,
+    spectatorDelayMs: lobby.spectatorDelayMs || 0,
+    isPublic: !!lobby.isPublic,
+    matchMode: lobby.matchMode,
+    createdAt: lobby.createdAt,
+    gameState: lobby.gameState || null,
+    selectedCharacters: lobby.selectedCharacters || createEmptyCharacterSelections(),
+    mapId: lobby.mapId,
+    mapData: lobby.mapData || null,
+    currentTurn: lobby.currentTurn,
+    turnOrder: lobby.turnOrder,
+    maxPlayers: lobby.maxPlayers,
+    started: !!lobby.started,
+    series: lobby.series || null
+  };
+}
+
+// Records from another version, or without the seat and turn lists, are skipped and deleted on restore.
+export function isLobbyRecordSupported(record) {
+  return record?.version === LOBBY_RECORD_VERSION && Array.isArray(record.playerSlots) && Array.isArray(record.turnOrder);
+}
+
+// `serverAuthority` says whether this server can run the simulation; without `normalizeMatchRules` (also from
+// the simulation bundle) a restored room falls back to the default rules.
+export function restoreLobbyFromRecord(record, { serverAuthority, normalizeMatchRules }) {
+  const playerSlots = record.playerSlots.map((slot) => ({
+    ...slot,
+    socketId: null,
+    connectionState: slot.connectionState === 'open' ? 'open' : 'disconnected',
+    disconnectedAt: slot.connectionState === 'open' ? null : (slot.disconnectedAt || record.savedAt)
+  }));
+
+  return {
+    playerSlots,
+    authorityPlayerId: record.authorityPlayerId || record.turnOrder?.[0] || PLAYER_ONE,
+    authoritySocketId: null,
+    serverAuthority,
+    simulation: null,
+    hostAdminEnabled: !!record.hostAdminEnabled,
+    fogOfWarDisabled: !!record.fogOfWarDisabled,
+    matchRules: record.matchRules && normalizeMatchRules ? normalizeMatchRules(record.matchRules) : null,
+    // Spectators reconnect on their own; the delayed feed restarts from the restored state.
+    spectators: {},
+    spectatorDelayMs: normalizeSpectatorDelayMs(record.spectatorDelayMs),
+    spectatorGameState: record.gameState || null,
+    isPublic: !!record.isPublic,
+    matchMode: normalizeLobbyMatchMode(record.matchMode, record.maxPlayers || record.turnOrder.length),
+    createdAt: record.createdAt || record.savedAt,
+    gameState: record.gameState || null,
+    // Replays are not persisted; a restored match keeps playing without one.
+    replay: null,
+    selectedCharacters: record.selectedCharacters || createEmptyCharacterSelections(),
+    mapId: record.mapId || 'MAP_1',
+    mapData: record.mapData || null,
+    currentTurn: record.currentTurn || record.turnOrder?.[0] || PLAYER_ONE,
+    turnOrder: record.turnOrder,
+    maxPlayers: record.maxPlayers || record.turnOrder.length,
+    started: !!record.started,
+    series: record.series || null
+  };
+}
@@ -0,0 +1,240 @@
+import fs from 'fs';
+
+// Turns `[AREA][EVENT] key=value` console messages into JSON log entries and appends them to a rotating file.
+// The server wires this to console.* (see the Logging section of server.js).
+export const LOG_TAGS_PATTERN = /^((?:\[[A-Z0-9_]+\])+)\s*/;
+// A value is either a bare word or a JSON string, which is how formatLogValue writes anything with spaces or quotes.
+export const LOG_PAIR_PATTERN = /(?:^|\s)([A-Za-z][A-Za-z0-9]*)=("(?:[^"\\]|\\.)*"|[^\s"]\S*)/g;
+// Other spellings of the common fields in existing messages.
+export const LOG_FIELD_ALIASES = { hostSocket: 'socket', spectator: 'socket', actor: 'player' };
+export const LOG_COMMON_FIELDS = ['room', 'socket', 'player', 'action', 'reason'];
+
+const LOG_RETRY_MS = 1000;
+const LOG_MAX_RETRY_MS = 60 * 1000;
+const LOG_MAX_BUFFERED_BYTES = 1024 * 1024;
+
+export function getLogDay(date) {
+  return date.toISOString().slice(0, 10);
+}
+
+// For values that may hold spaces (reasons, error messages, paths): `reason=${formatLogValue(reason)}`.
+export function formatLogValue(value) {
+  const text = String(value);
+  return /^[^\s"]+$/.test(text) ? text : JSON.stringify(text);
+}
+
+function readLogValue(rawValue) {
+  if (!rawValue.startsWith('"')) return { value: rawValue, quoted: false };
+  try {
+    return { value: JSON.parse(rawValue), quoted: true };
+  } catch {
+    return { value: rawValue, quoted: false };
+  }
+}
+
+function parseLogValue(value) {
+  if (value === 'n/a' || value === 'null' || value === 'undefined') return null;
+  if (value === 'true' || value === 'false') return value === 'true';
+  return /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : value;
+}
+
+export function buildLogEntry(level, message, date) {
+  const tags = LOG_TAGS_PATTERN.exec(message);
+  const [area = null, ...events] = tags ? tags[1].slice(1, -1).split('][') : [];
+  const entry = {
+    ts: date.toISOString(),
+    level,
+    area,
+    event: events.length > 0 ? events.join('.') : null,
+    room: null,
+    socket: null,
+    player: null,
+    action: null,
+    reason: null,
+    msg: message
+  };
+  const data = {};
+  for (const [, key, rawValue] of message.matchAll(LOG_PAIR_PATTERN)) {
+    const field = LOG_FIELD_ALIASES[key] || key;
+    const { value, quoted } = readLogValue(rawValue);
+    if (LOG_COMMON_FIELDS.includes(field)) {
+      // Room codes and ids stay strings; only the extra fields are typed.
+      entry[field] = entry[field] ?? (!quoted && value === 'n/a' ? null : value);
+    } else {
+      // A quoted value is always text, even when it reads like a number.
+      data[key] = quoted ? value : parseLogValue(value);
+    }
+  }
+  if (Object.keys(data).length > 0) {
+    entry.data = data;
+  }
+  return entry;
+}
+
+// Moves LOG_FILE to LOG_FILE.1 and every older file up one number, dropping the one past maxFiles.
+function shiftLogFiles(file, maxFiles) {
+  for (let index = maxFiles; index >= 1; index -= 1) {
+    const source = index === 1 ? file : `${file}.${index - 1}`;
+    if (!fs.existsSync(source)) continue;
+    if (index === maxFiles && fs.existsSync(`${file}.${index}`)) {
+      fs.rmSync(`${file}.${index}`);
+    }
+    fs.renameSync(source, `${file}.${index}`);
+  }
+  if (maxFiles === 0) {
+    fs.rmSync(file, { force: true });
+  }
+}
+
+// Appends lines through a write stream so a slow disk never blocks the event loop. Rotation waits for the old
+// stream to close before renaming (Windows refuses to rename an open file); lines logged meanwhile are queued.
+// When the file cannot be opened or written, lines are dropped and the next write after a backoff (doubling up to
+// maxRetryMs) opens the file again. Lines are also dropped while more than maxBufferedBytes wait for the disk.
+export function createLogFileWriter({
+  file,
+  rotation = 'size',
+  maxBytes,
+  maxFiles,
+  retryMs = LOG_RETRY_MS,
+  maxRetryMs = LOG_MAX_RETRY_MS,
+  maxBufferedBytes = LOG_MAX_BUFFERED_BYTES,
+  onError = null,
+  now = Date.now
+}) {
+  const status = { failing: false, failures: 0, droppedLines: 0, lastError: null };
+  let stream = null;
+  let bytes = 0;
+  let day = null;
+  let rotating = null;
+  let queued = [];
+  let queuedBytes = 0;
+  let retryAt = 0;
+  let consecutiveFailures = 0;
+  let closing = false;
+
+  const recovered = (err) => {
+    if (err) return;
+    consecutiveFailures = 0;
+    status.failing = false;
+  };
+
+  const fail = (err) => {
+    consecutiveFailures += 1;
+    retryAt = now() + Math.min(retryMs * 2 ** (consecutiveFailures - 1), maxRetryMs);
+    status.failing = true;
+    status.failures += 1;
+    status.lastError = err.message;
+    status.droppedLines += queued.length;
+    queued = [];
+    queuedBytes = 0;
+    if (stream) {
+      stream.destroy();
+      stream = null;
+    }
+    onError?.(err, retryAt);
+  };
+
+  const open = () => {
+    let stats = null;
+    try {
+      stats = fs.statSync(file);
+    } catch (err) {
+      if (err.code !== 'ENOENT') throw err;
+    }
+    const next = fs.createWriteStream(file, { flags: 'a' });
+    next.on('error', (err) => {
+      if (stream === next) fail(err);
+    });
+    stream = next;
+    bytes = stats?.size || 0;
+    day = getLogDay(bytes > 0 ? stats.mtime : new Date());
+  };
+
+  const queue = (line, date, lineBytes) => {
+    if (queuedBytes + lineBytes > maxBufferedBytes) {
+      status.droppedLines += 1;
+      return;
+    }
+    queued.push([line, date]);
+    queuedBytes += lineBytes;
+  };
+
+  const rotate = () => {
+    const previous = stream;
+    stream = null;
+    rotating = new Promise((resolve) => {
+      previous.once('close', () => {
+        rotating = null;
+        try {
+          shiftLogFiles(file, maxFiles);
+          open();
+        } catch (err) {
+          fail(err);
+          resolve();
+          return;
+        }
+        const lines = queued;
+        queued = [];
+        queuedBytes = 0;
+        lines.forEach(([line, date]) => append(line, date));
+        resolve();
+      });
+    });
+    previous.end();
+  };
+
+  const append = (line, date) => {
+    const lineBytes = Buffer.byteLength(line);
+    if (rotating) {
+      queue(line, date, lineBytes);
+      return;
+    }
+    if (!stream) {
+      if (now() < retryAt) {
+        status.droppedLines += 1;
+        return;
+      }
+      try {
+        open();
+      } catch (err) {
+        status.droppedLines += 1;
+        fail(err);
+        return;
+      }
+    }
+    const dayChanged = rotation === 'daily' && day !== getLogDay(date);
+    if (bytes > 0 && (dayChanged || bytes + lineBytes > maxBytes)) {
+      queue(line, date, lineBytes);
+      rotate();
+      return;
+    }
+    if (stream.writableLength + lineBytes > maxBufferedBytes) {
+      status.droppedLines += 1;
+      return;
+    }
+    stream.write(line, consecutiveFailures > 0 ? recovered : undefined);
+    bytes += lineBytes;
+    day = getLogDay(date);
+  };
+
+  return {
+    write(line, date = new Date()) {
+      if (!closing) append(line, date);
+    },
+    getStatus() {
+      return { ...status };
+    },
+    // Flushes what is buffered (including lines queued behind a rotation) and closes the file.
+    async close() {
+      closing = true;
+      while (rotating) await rotating;
+      if (!stream) return;
+      const current = stream;
+      stream = null;
+      await new Promise((resolve) => {
+        current.once('close', resolve);
+        current.end();
+      });
+    }
+  };
+}
@@ -0,0 +1,78 @@
+// Seat ids as the client's PlayerId enum spells them.
+export const PLAYER_ONE = 'P1';
+export const PLAYER_TWO = 'P2';
+export const PLAYER_THREE = 'P3';
+export const PLAYER_FOUR = 'P4';
+export const PLAYER_IDS = [PLAYER_ONE, PLAYER_TWO, PLAYER_THREE, PLAYER_FOUR];
+
+export const MATCH_MODES = ['duel', 'team_2v1', 'team_2v2', 'ffa'];
+
+// Same fallback as the client's map metadata: maps without a valid mode get the default for their size.
+export function normalizeLobbyMatchMode(mode, players) {
+  if (MATCH_MODES.includes(mode)) return mode;
+  if (players === 3) return 'team_2v1';
+  if (players === 4) return 'team_2v2';
+  return 'duel';
+}
+
+export function createEmptyCharacterSelections() {
+  return {
+    [PLAYER_ONE]: null,
+    [PLAYER_TWO]: null,
+    [PLAYER_THREE]: null,
+    [PLAYER_FOUR]: null,
+    NEUTRAL: null
+  };
+}
+
+// Slot queries. Every room keeps one slot per seat in turn order; connectionState is 'open' until someone claims
+// the seat, then 'connected' or 'disconnected'.
+export function createPlayerSlots(turnOrder, initialSocketId) {
+  return turnOrder.map((playerId, index) => ({
+    playerId,
+    socketId: index === 0 ? initialSocketId : null,
+    connectionState: index === 0 ? 'connected' : 'open',
+    joinedAt: index === 0 ? Date.now() : null,
+    disconnectedAt: null,
+    lastSeenAt: index === 0 ? Date.now() : null,
+    sessionTokenHash: null
+  }));
+}
+
+export function getPlayerSlotByPlayerId(lobby, playerId) {
+  return lobby.playerSlots.find((slot) => slot.playerId === playerId) || null;
+}
+
+export function getPlayerSlotBySocketId(lobby, socketId) {
+  return lobby.playerSlots.find((slot) => slot.socketId === socketId) || null;
+}
+
+export function getPlayerIdForSocket(lobby, socketId) {
+  return getPlayerSlotBySocketId(lobby, socketId)?.playerId || null;
+}
+
+export function getConnectedSlots(lobby) {
+  return lobby.playerSlots.filter((slot) => slot.connectionState === 'connected' && !!slot.socketId);
+}
+
+export function getDisconnectedSlots(lobby) {
+  return lobby.playerSlots.filter((slot) => slot.connectionState === 'disconnected');
+}
+
+export function getOpenSlots(lobby) {
+  return lobby.playerSlots.filter((slot) => slot.connectionState === 'open');
+}
+
+export function getJoinedSlots(lobby) {
+  return lobby.playerSlots.filter((slot) => slot.connectionState !== 'open');
+}
+
+export function getConnectedSocketIds(lobby) {
+  return getConnectedSlots(lobby)
+    .map((slot) => slot.socketId)
+    .filter(Boolean);
+}
+
+export function getLobbyPlayerIds(lobby) {
+  return lobby.playerSlots.map((slot) => slot.playerId);
+}
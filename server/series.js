@@ -0,0 +1,63 @@
+import { PLAYER_ONE, getConnectedSlots, getLobbyPlayerIds } from './players.js';
+
+// Match series and rematch votes. The socket side (announcing the score, restarting the room) is in server.js.
+export function createMatchSeries(lobby) {
+  return {
+    matchNumber: 1,
+    scores: Object.fromEntries(getLobbyPlayerIds(lobby).map((playerId) => [playerId, 0])),
+    resultRecorded: false,
+    rematchVotes: {},
+    rotateTurnOrder: true
+  };
+}
+
+export function isLobbyMatchOver(lobby) {
+  return !!lobby.started && Array.isArray(lobby.gameState?.winner);
+}
+
+export function getRematchTurnOrder(lobby) {
+  const turnOrder = lobby.turnOrder || [];
+  return lobby.series?.rotateTurnOrder && turnOrder.length > 1
+    ? [...turnOrder.slice(1), turnOrder[0]]
+    : [...turnOrder];
+}
+
+export function formatSeriesScores(series) {
+  return Object.entries(series.scores).map(([playerId, score]) => `${playerId}:${score}`).join(',');
+}
+
+// What the win screen shows: the series score, who has voted and who moves first next.
+export function buildRematchStatePayload(roomId, lobby) {
+  const series = lobby.series || createMatchSeries(lobby);
+  const connectedPlayerIds = getConnectedSlots(lobby).map((slot) => slot.playerId);
+  return {
+    roomId,
+    matchNumber: series.matchNumber,
+    scores: { ...series.scores },
+    acceptedPlayerIds: connectedPlayerIds.filter((playerId) => series.rematchVotes[playerId]),
+    waitingPlayerIds: connectedPlayerIds.filter((playerId) => !series.rematchVotes[playerId]),
+    rotateTurnOrder: !!series.rotateTurnOrder,
+    nextFirstPlayerId: getRematchTurnOrder(lobby)[0] || PLAYER_ONE
+  };
+}
+
+// Scores the finished match once, when its winner first shows up. Returns true when this call scored it.
+export function recordSeriesResult(lobby) {
+  if (!isLobbyMatchOver(lobby)) return false;
+  lobby.series = lobby.series || createMatchSeries(lobby);
+  if (lobby.series.resultRecorded) return false;
+
+  lobby.series.resultRecorded = true;
+  lobby.gameState.winner.forEach((playerId) => {
+    lobby.series.scores[playerId] = (lobby.series.scores[playerId] || 0) + 1;
+  });
+  return true;
+}
+
+// A rematch needs at least two connected players, all of whom have accepted.
+export function isRematchAgreed(lobby) {
+  const series = lobby.series;
+  const connectedSlots = getConnectedSlots(lobby);
+  if (!series || !isLobbyMatchOver(lobby) || connectedSlots.length < 2) return false;
+  return connectedSlots.every((slot) => series.rematchVotes[slot.playerId]);
+}
@@ -0,0 +1,63 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { getDisconnectedSlots, getOpenSlots, getPlayerSlotByPlayerId } from './players.js';
+
+// A seat gets a random token when it is claimed, sent only to the claiming socket. The slot keeps just its SHA-256
+// digest, which is also what the lobby store sees. Reclaiming a disconnected seat takes the token; knowing the
+// room code is not enough. The host can reissue any seat's token, which invalidates the old one.
+export const SESSION_TOKEN_BYTES = 16;
+
+export function hashSessionToken(token) {
+  return createHash('sha256').update(token).digest();
+}
+
+export function issueSessionToken(slot) {
+  const token = randomBytes(SESSION_TOKEN_BYTES).toString('hex').toUpperCase();
+  slot.sessionTokenHash = hashSessionToken(token).toString('hex');
+  return token;
+}
+
+export function isSessionTokenValid(slot, token) {
+  if (!slot?.sessionTokenHash || typeof token !== 'string' || token.length !== SESSION_TOKEN_BYTES * 2) return false;
+  return timingSafeEqual(hashSessionToken(token.toUpperCase()), Buffer.from(slot.sessionTokenHash, 'hex'));
+}
+
+export function normalizeJoinLobbyPayload(payload) {
+  if (typeof payload === 'string') {
+    return {
+      roomId: payload,
+      preferredPlayerId: null,
+      sessionToken: null,
+      restoreSession: false
+    };
+  }
+
+  return {
+    roomId: typeof payload?.roomId === 'string' ? payload.roomId : '',
+    preferredPlayerId: typeof payload?.preferredPlayerId === 'string' ? payload.preferredPlayerId : null,
+    sessionToken: typeof payload?.sessionToken === 'string' ? payload.sessionToken : null,
+    restoreSession: !!payload?.restoreSession
+  };
+}
+
+// Open seats go to anyone; a disconnected seat only to whoever holds its session token.
+// Returns { slot } or { reason } for the join to fail with.
+export function resolveJoinSlot(lobby, preferredPlayerId, sessionToken) {
+  const preferredSlot = preferredPlayerId ? getPlayerSlotByPlayerId(lobby, preferredPlayerId) : null;
+  if (preferredSlot?.connectionState === 'open') {
+    return { slot: preferredSlot };
+  }
+  if (preferredSlot?.connectionState === 'disconnected') {
+    return isSessionTokenValid(preferredSlot, sessionToken) ? { slot: preferredSlot } : { reason: 'INVALID_SESSION_TOKEN' };
+  }
+
+  const tokenSlot = sessionToken ? getDisconnectedSlots(lobby).find((slot) => isSessionTokenValid(slot, sessionToken)) : null;
+  if (tokenSlot) {
+    return { slot: tokenSlot };
+  }
+
+  const openSlot = lobby.started ? null : getOpenSlots(lobby)[0];
+  if (openSlot) {
+    return { slot: openSlot };
+  }
+  return { reason: lobby.started ? 'REJOIN_SLOT_UNAVAILABLE' : 'LOBBY_FULL' };
+}
@@ -0,0 +1,43 @@
+// Spectator rules that do not depend on sockets, so tests can load them without starting the server.
+export const SPECTATOR_FULL_VISION = 'ALL';
+export const MAX_SPECTATOR_DELAY_MS = 5 * 60 * 1000;
+// Full vision of a fogged match shows what every seat hides from the others. Without this much delay a
+// spectator could call out enemy positions to a player while they still matter.
+export const MIN_FULL_VISION_DELAY_MS = 30 * 1000;
+
+export function normalizeSpectatorDelayMs(value) {
+  const delayMs = Number(value);
+  if (!Number.isFinite(delayMs) || delayMs <= 0) return 0;
+  return Math.min(Math.round(delayMs), MAX_SPECTATOR_DELAY_MS);
+}
+
+// The check looks at the room settings rather than its phase: a spectator who joins in the lobby keeps the
+// perspective once the match starts, and neither fog nor delay changes after the room is created.
+export function isFullVisionAllowed(lobby) {
+  return !!lobby.fogOfWarDisabled || (lobby.spectatorDelayMs || 0) >= MIN_FULL_VISION_DELAY_MS;
+}
+
+// Returns null when the perspective may be used, otherwise the reason it is refused.
+export function getSpectatorPerspectiveRejection(lobby, perspective) {
+  if (perspective === SPECTATOR_FULL_VISION) {
+    return isFullVisionAllowed(lobby) ? null : 'FULL_VISION_NEEDS_DELAY';
+  }
+  return (lobby.turnOrder || []).includes(perspective) ? null : 'UNKNOWN_PERSPECTIVE';
+}
+
+// Used when a join names no perspective: full vision where allowed, otherwise the first seat.
+export function getDefaultSpectatorPerspective(lobby) {
+  return isFullVisionAllowed(lobby) ? SPECTATOR_FULL_VISION : (lobby.turnOrder || [])[0] || null;
+}
+
+// A player perspective sees exactly what that seat sees; full vision gets the snapshot without its PRNG state.
+// The redaction helpers come from the simulation bundle, which the server may run without.
+export function buildSpectatorView(state, perspective, { redactSyncStateForPlayer, omitRandomState }) {
+  if (!state || !Array.isArray(state.units)) {
+    return state;
+  }
+  if (perspective === SPECTATOR_FULL_VISION || !redactSyncStateForPlayer) {
+    return omitRandomState(state);
+  }
+  return redactSyncStateForPlayer(state, perspective, state.terrain);
+}
@@ -0,0 +1,353 @@
+import { AiDifficulty, AppStatus, Card, CardCategory, CONTESTED_PLAYER_IDS, GameState, PlayerId, Position, ShopItem, Talent, Unit, UnitType } from '../types';
+import { BUILDING_TYPES, CARD_CONFIG } from '../constants';
+import { nextRandom } from '../utils/seededRandom';
+import { RulesCommand, RulesEngine } from './rulesEngine';
+
+// Plays one contested seat by returning the next command for it, one decision per call. It only reads the
+// engine and never mutates it, so the same controller drives the browser shell and headless matches.
+
+interface AiProfile {
+    blunderChance: number; // Chance to pass on an action it would otherwise take, rolled once per action per turn
+    purchasesPerTurn: number;
+    deploysPerTurn: number;
+    creditReserve: number; // Credits left untouched after a purchase
+    focusFire: boolean; // Finish off wounded targets instead of hitting whatever is closest
+    holdInRange: boolean; // Stop advancing once an enemy is already within range
+    ignoresNeutrals: boolean; // Leave creeps alone unless nothing else is left to fight
+    readsComposition: boolean; // Weighs talents against the units it actually fields
+}
+
+const AI_PROFILES: Record<AiDifficulty, AiProfile> = {
+    EASY: {
+        blunderChance: 0.35,
+        purchasesPerTurn: 1,
+        deploysPerTurn: 1,
+        creditReserve: 150,
+        focusFire: false,
+        holdInRange: false,
+        ignoresNeutrals: false,
+        readsComposition: false
+    },
+    NORMAL: {
+        blunderChance: 0.1,
+        purchasesPerTurn: 1,
+        deploysPerTurn: 2,
+        creditReserve: 50,
+        focusFire: true,
+        holdInRange: true,
+        ignoresNeutrals: false,
+        readsComposition: false
+    },
+    HARD: {
+        blunderChance: 0,
+        purchasesPerTurn: 3,
+        deploysPerTurn: 99,
+        creditReserve: 0,
+        focusFire: true,
+        holdInRange: true,
+        ignoresNeutrals: true,
+        readsComposition: true
+    }
+};
+
+const TALENT_BASE_WEIGHTS: Record<string, number> = {
+    t1: 3, t2: 4, t3: 6, t4: 6, t5: 5, t6: 2, t7: 7, t8: 2, t9: 2, t10: 2,
+    t11: 2, t12: 2, t13: 2, t14: 4, t15: 0, t16: 3, t17: 3, t18: 3, t19: 3, t20: 3,
+    t21: 3, t22: 4, t23: 1, t24: 2, t25: 2, t26: 2, t27: 1, t28: 5, t29: 1, t30: 5,
+    t31: 0
+};
+
+// Unit-specific talents and the unit types they upgrade.
+const TALENT_UNIT_TYPES: Record<string, UnitType[]> = {
+    t8: [UnitType.SOLDIER],
+    t9: [UnitType.SOLDIER],
+    t16: [UnitType.SOLDIER],
+    t17: [UnitType.SOLDIER],
+    t10: [UnitType.HEAVY],
+    t11: [UnitType.HEAVY],
+    t18: [UnitType.HEAVY],
+    t19: [UnitType.HEAVY],
+    t12: [UnitType.BOX, UnitType.SUICIDE_DRONE],
+    t20: [UnitType.BOX, UnitType.SUICIDE_DRONE],
+    t13: [UnitType.LIGHT_TANK, UnitType.HEAVY_TANK],
+    t21: [UnitType.LIGHT_TANK, UnitType.HEAVY_TANK],
+    t25: [UnitType.MEDIC, UnitType.REPAIR_BOT],
+    t26: [UnitType.CONE]
+};
+
+const getManhattanDistance = (a: Position, b: Position) => Math.abs(a.x - b.x) + Math.abs(a.z - b.z);
+
+export class AiController {
+    private readonly profile: AiProfile;
+    private rngState: number;
+    private turnCount: number | null = null;
+    private endedTurnCount: number | null = null; // SKIP_TURN sent; auto-attacks and creeps still run before the handoff
+    private purchasesThisTurn = 0;
+    private deploysThisTurn = 0;
+    private readonly orderedUnitIds = new Set<string>(); // Units already given their move order this turn
+    private readonly declinedActions = new Set<string>();
+
+    // Seeded from the match so a rerun of the same match makes the same decisions; each seat gets its own stream.
+    constructor(
+        private readonly playerId: PlayerId,
+        private readonly difficulty: AiDifficulty,
+        matchSeed: number
+    ) {
+        this.profile = AI_PROFILES[difficulty];
+        this.rngState = (matchSeed ^ Math.imul(CONTESTED_PLAYER_IDS.indexOf(playerId) + 1, 0x9E3779B1)) >>> 0;
+    }
+
+    public getPlayerId(): PlayerId {
+        return this.playerId;
+    }
+
+    public getDifficulty(): AiDifficulty {
+        return this.difficulty;
+    }
+
+    // Null means "nothing to do right now": not this seat's turn, or the board is still resolving a previous command.
+    public nextCommand(engine: RulesEngine): RulesCommand | null {
+        const state = engine.getState();
+        if (state.winner || state.currentTurn !== this.playerId) return null;
+
+        if (state.appStatus === AppStatus.TALENT_SELECTION) {
+            return this.planTalentPick(state);
+        }
+
+        if (state.appStatus !== AppStatus.PLAYING || this.isResolving(state)) return null;
+        if (this.endedTurnCount === state.turnCount) return null;
+
+        if (this.turnCount !== state.turnCount) {
+            this.turnCount = state.turnCount;
+            this.purchasesThisTurn = 0;
+            this.deploysThisTurn = 0;
+            this.orderedUnitIds.clear();
+            this.declinedActions.clear();
+        }
+
+        const command = this.planPurchase(state)
+            || this.planAttack(engine, state)
+            || this.planDeployment(engine, state)
+            || this.planMove(engine, state);
+        if (command) return command;
+
+        this.endedTurnCount = state.turnCount;
+        return { action: 'SKIP_TURN', data: {} };
+    }
+
+    private random(): number {
+        const { value, rngState } = nextRandom(this.rngState);
+        this.rngState = rngState;
+        return value;
+    }
+
+    private pickRandom<T>(items: T[]): T {
+        return items[Math.floor(this.random() * items.length)];
+    }
+
+    private declines(actionKey: string): boolean {
+        if (this.declinedActions.has(actionKey)) return true;
+        if (this.profile.blunderChance > 0 && this.random() < this.profile.blunderChance) {
+            this.declinedActions.add(actionKey);
+            return true;
+        }
+        return false;
+    }
+
+    // Moves animate step by step and strikes land after a delay; acting mid-resolution would plan on a stale board.
+    private isResolving(state: GameState): boolean {
+        return state.units.some((unit) =>
+            unit.movePath.length > 0 ||
+            (unit.playerId === this.playerId && !!unit.status.attackTargetId)
+        );
+    }
+
+    private getOwnUnits(state: GameState): Unit[] {
+        return state.units.filter((unit) => unit.playerId === this.playerId && !unit.status.isDying);
+    }
+
+    private getEnemyUnits(engine: RulesEngine, state: GameState): Unit[] {
+        const enemies = state.units.filter((unit) => !unit.status.isDying && engine.isHostileTo(this.playerId, unit.playerId));
+        if (!this.profile.ignoresNeutrals) return enemies;
+
+        const contestedEnemies = enemies.filter((unit) => unit.playerId !== PlayerId.NEUTRAL);
+        return contestedEnemies.length > 0 ? contestedEnemies : enemies;
+    }
+
+    private planTalentPick(state: GameState): RulesCommand | null {
+        const choices = state.talentChoices;
+        if (choices.length === 0) return null;
+
+        const talent = this.difficulty === 'EASY'
+            ? this.pickRandom(choices)
+            : this.getBestTalent(state, choices);
+
+        return { action: 'TALENT_CHOOSE', data: { playerId: this.playerId, talentId: talent.id } };
+    }
+
+    private getBestTalent(state: GameState, choices: Talent[]): Talent {
+        const fieldedTypes = [
+            ...this.getOwnUnits(state).map((unit) => unit.type),
+            ...state.decks[this.playerId].map((card) => card.type)
+        ];
+
+        const scoreTalent = (talent: Talent) => {
+            let score = TALENT_BASE_WEIGHTS[talent.id] ?? 1;
+            if (this.profile.readsComposition) {
+                const upgradedTypes = TALENT_UNIT_TYPES[talent.id];
+                if (upgradedTypes) {
+                    score += 2 * fieldedTypes.filter((type) => upgradedTypes.includes(type)).length;
+                }
+            }
+            return score;
+        };
+
+        return choices.reduce((best, talent) => (scoreTalent(talent) > scoreTalent(best) ? talent : best));
+    }
+
+    private planPurchase(state: GameState): RulesCommand | null {
+        if (this.purchasesThisTurn >= this.profile.purchasesPerTurn) return null;
+        if (!state.shopAvailable && !state.isDevMode) return null;
+
+        const reservedSlots = state.decks[this.playerId].length + state.pendingOrders[this.playerId].length;
+        if (reservedSlots >= state.matchRules.maxInventoryCapacity) return null;
+
+        const budget = state.credits[this.playerId] - this.profile.creditReserve;
+        const affordable = state.shopStock[this.playerId].filter((item) =>
+            item.cost <= budget &&
+            !BUILDING_TYPES.includes(item.type) &&
+            CARD_CONFIG[item.type]?.category === CardCategory.UNIT
+        );
+        if (affordable.length === 0) return null;
+
+        // Counted up front so a rejected or declined purchase is never retried in a loop.
+        this.purchasesThisTurn += 1;
+        if (this.declines(`buy:${this.purchasesThisTurn}`)) return null;
+
+        const item = this.difficulty === 'EASY'
+            ? this.pickRandom(affordable)
+            : this.getBestShopItem(affordable);
+
+        return { action: 'SHOP_BUY', data: { playerId: this.playerId, itemId: item.id } };
+    }
+
+    private getBestShopItem(items: ShopItem[]): ShopItem {
+        const scoreItem = (item: ShopItem) => {
+            const deliveryPenalty = this.profile.readsComposition ? item.deliveryTurns * 25 : 0;
+            return item.cost - deliveryPenalty;
+        };
+        return items.reduce((best, item) => (scoreItem(item) > scoreItem(best) ? item : best));
+    }
+
+    private planAttack(engine: RulesEngine, state: GameState): RulesCommand | null {
+        const enemies = state.units.filter((unit) => !unit.status.isDying && engine.isHostileTo(this.playerId, unit.playerId));
+
+        for (const attacker of this.getOwnUnits(state)) {
+            const targets = enemies.filter((target) => engine.canUnitAttack(attacker.id, target.id));
+            if (targets.length === 0 || this.declines(`attack:${attacker.id}`)) continue;
+
+            const target = this.getBestAttackTarget(engine, attacker, targets);
+            return { action: 'ATTACK', data: { attackerId: attacker.id, targetId: target.id } };
+        }
+        return null;
+    }
+
+    private getBestAttackTarget(engine: RulesEngine, attacker: Unit, targets: Unit[]): Unit {
+        if (!this.profile.focusFire) {
+            return this.pickRandom(targets);
+        }
+
+        const damage = engine.getEffectiveAttack(attacker);
+        const scoreTarget = (target: Unit) => {
+            let score = -target.stats.hp;
+            if (target.stats.hp <= damage) score += 1000;
+            if (this.profile.ignoresNeutrals && target.playerId === PlayerId.NEUTRAL) score -= 500;
+            if (this.profile.readsComposition && !BUILDING_TYPES.includes(target.type)) score += target.stats.attack;
+            return score;
+        };
+        return targets.reduce((best, target) => (scoreTarget(target) > scoreTarget(best) ? target : best));
+    }
+
+    private planDeployment(engine: RulesEngine, state: GameState): RulesCommand | null {
+        if (this.deploysThisTurn >= this.profile.deploysPerTurn || !engine.canPlayerDeploy(this.playerId)) return null;
+
+        const cards = state.decks[this.playerId]
+            .filter((card) => card.category === CardCategory.UNIT && card.type !== UnitType.WALL)
+            .sort((a, b) => (this.profile.readsComposition ? b.cost - a.cost : 0));
+        const enemies = this.getEnemyUnits(engine, state);
+
+        for (const card of cards) {
+            if (this.declines(`deploy:${card.id}`)) continue;
+
+            const tiles = engine.getDeploymentTiles(this.playerId, card.baseStats?.size || 1);
+            if (tiles.length === 0) continue;
+
+            this.deploysThisTurn += 1;
+            return {
+                action: 'PLACE_UNIT',
+                data: { playerId: this.playerId, position: this.getDeploymentTile(card, tiles, enemies), cardId: card.id }
+            };
+        }
+        return null;
+    }
+
+    // Forward tiles for fighters; buildings and support stay on the tile furthest from the enemy.
+    private getDeploymentTile(card: Card, tiles: Position[], enemies: Unit[]): Position {
+        if (this.difficulty === 'EASY' || enemies.length === 0) {
+            return this.pickRandom(tiles);
+        }
+
+        const staysBack = BUILDING_TYPES.includes(card.type) || card.type === UnitType.MEDIC || card.type === UnitType.REPAIR_BOT;
+        const distanceToEnemy = (tile: Position) => Math.min(...enemies.map((enemy) => getManhattanDistance(tile, enemy.position)));
+        return tiles.reduce((best, tile) => {
+            const delta = distanceToEnemy(tile) - distanceToEnemy(best);
+            return (staysBack ? delta > 0 : delta < 0) ? tile : best;
+        });
+    }
+
+    private planMove(engine: RulesEngine, state: GameState): RulesCommand | null {
+        const enemies = this.getEnemyUnits(engine, state);
+        if (enemies.length === 0) return null;
+
+        const movers = this.getOwnUnits(state).filter((unit) =>
+            !BUILDING_TYPES.includes(unit.type) &&
+            !this.orderedUnitIds.has(unit.id) &&
+            unit.status.stepsTaken < engine.getEffectiveMovement(unit)
+        );
+
+        for (const mover of movers) {
+            this.orderedUnitIds.add(mover.id);
+            if (this.declines(`move:${mover.id}`)) continue;
+
+            if (this.profile.holdInRange && enemies.some((enemy) => engine.getUnitDistance(mover, enemy) <= mover.stats.range)) {
+                continue;
+            }
+
+            const target = this.getMoveTarget(engine, mover, enemies);
+            const path = this.trimToRange(engine, mover, target, engine.planUnitPath(mover.id, target.position, target.id));
+            if (path.length === 0) continue;
+
+            const destination = path[path.length - 1];
+            return { action: 'MOVE', data: { unitId: mover.id, path, targetX: destination.x, targetZ: destination.z } };
+        }
+        return null;
+    }
+
+    private getMoveTarget(engine: RulesEngine, mover: Unit, enemies: Unit[]): Unit {
+        const scoreTarget = (enemy: Unit) => {
+            const distance = engine.getUnitDistance(mover, enemy);
+            return this.profile.focusFire ? distance + enemy.stats.hp / 100 : distance;
+        };
+        return enemies.reduce((best, enemy) => (scoreTarget(enemy) < scoreTarget(best) ? enemy : best));
+    }
+
+    // Ranged units stop at the first step that brings the target into range instead of walking into melee.
+    private trimToRange(engine: RulesEngine, mover: Unit, target: Unit, path: Position[]): Position[] {
+        if (!this.profile.holdInRange) return path;
+
+        const stopIndex = path.findIndex((step) =>
+            engine.getUnitDistance({ ...mover, position: step }, target) <= mover.stats.range
+        );
+        return stopIndex === -1 ? path : path.slice(0, stopIndex + 1);
+    }
+}
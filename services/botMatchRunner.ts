@@ -0,0 +1,266 @@
+import { AiDifficulty, AppStatus, CONTESTED_PLAYER_IDS, PlayerId, ShopItem, UnitType } from '../types';
+import { AiController } from './aiController';
+import { RulesEngine, RulesEngineOptions, TALENT_POOL, VirtualScheduler } from './rulesEngine';
+
+// Entry point for the headless bot-vs-bot runner (bundled by `npm run simulate`). Plays whole matches
+// between AI controllers on a virtual clock and aggregates balance stats across them.
+
+const DEFAULT_MAX_ROUNDS = 60;
+// Consecutive polls where no seat acts and nothing is left to settle; the match is abandoned past this.
+const MAX_IDLE_POLLS = 5;
+
+export interface BotMatchConfig {
+    mapId: string;
+    matches: number;
+    seed: number; // Match i is played with seed + i
+    difficulties: Partial<Record<PlayerId, AiDifficulty>>; // Seats without an entry play HARD
+    maxRounds?: number; // Matches still running after this round count as draws
+    onMatchComplete?: (result: BotMatchResult) => void;
+}
+
+export interface BotMatchResult {
+    index: number;
+    seed: number;
+    winner: PlayerId[] | null;
+    rounds: number;
+    abandoned: boolean;
+}
+
+export interface UnitTypeStats {
+    damageDealt: number;
+    creditsSpent: number;
+    purchased: number;
+    deployed: number;
+}
+
+export interface TalentStats {
+    name: string;
+    picks: number;
+    wins: number; // Picks made by a player who went on to win that match
+    damageDealt: number; // Dealt by the picking player after the pick
+    creditsSpent: number; // Spent by the picking player after the pick
+}
+
+export interface SlotStats {
+    difficulty: AiDifficulty;
+    wins: number;
+    winRate: number;
+}
+
+export interface BotMatchReport {
+    mapId: string;
+    matches: number;
+    seed: number;
+    maxRounds: number;
+    draws: number;
+    abandoned: number;
+    averageRounds: number;
+    slots: Partial<Record<PlayerId, SlotStats>>;
+    unitTypes: Partial<Record<UnitType, UnitTypeStats>>;
+    talents: Record<string, TalentStats>;
+    results: BotMatchResult[];
+}
+
+// Shared by every match in a run; each engine reports into it as damage and purchases happen.
+class BalanceStatsRecorder {
+    public readonly unitTypes: Partial<Record<UnitType, UnitTypeStats>> = {};
+    public readonly talents: Record<string, TalentStats> = {};
+    private matchTalentPicks: Array<{ playerId: PlayerId; talentId: string }> = [];
+
+    public beginMatch() {
+        this.matchTalentPicks = [];
+    }
+
+    public recordDamage(playerId: PlayerId, unitType: UnitType, amount: number, talentIds: string[]) {
+        if (!CONTESTED_PLAYER_IDS.includes(playerId)) return;
+        this.getUnitTypeStats(unitType).damageDealt += amount;
+        talentIds.forEach((talentId) => {
+            this.getTalentStats(talentId).damageDealt += amount;
+        });
+    }
+
+    public recordPurchase(unitType: UnitType, cost: number, talentIds: string[]) {
+        const stats = this.getUnitTypeStats(unitType);
+        stats.creditsSpent += cost;
+        stats.purchased += 1;
+        talentIds.forEach((talentId) => {
+            this.getTalentStats(talentId).creditsSpent += cost;
+        });
+    }
+
+    public recordDeployment(unitType: UnitType) {
+        this.getUnitTypeStats(unitType).deployed += 1;
+    }
+
+    public recordTalentPick(playerId: PlayerId, talentId: string) {
+        this.getTalentStats(talentId).picks += 1;
+        this.matchTalentPicks.push({ playerId, talentId });
+    }
+
+    public endMatch(winner: PlayerId[] | null) {
+        if (!winner) return;
+        this.matchTalentPicks
+            .filter((pick) => winner.includes(pick.playerId))
+            .forEach((pick) => {
+                this.getTalentStats(pick.talentId).wins += 1;
+            });
+    }
+
+    private getUnitTypeStats(unitType: UnitType): UnitTypeStats {
+        if (!this.unitTypes[unitType]) {
+            this.unitTypes[unitType] = { damageDealt: 0, creditsSpent: 0, purchased: 0, deployed: 0 };
+        }
+        return this.unitTypes[unitType]!;
+    }
+
+    private getTalentStats(talentId: string): TalentStats {
+        if (!this.talents[talentId]) {
+            const name = TALENT_POOL.find((talent) => talent.id === talentId)?.name || talentId;
+            this.talents[talentId] = { name, picks: 0, wins: 0, damageDealt: 0, creditsSpent: 0 };
+        }
+        return this.talents[talentId];
+    }
+}
+
+// Hooks the few rule steps the stats need; everything else is the stock engine.
+class InstrumentedRulesEngine extends RulesEngine {
+    constructor(options: RulesEngineOptions, private readonly recorder: BalanceStatsRecorder) {
+        super(options);
+    }
+
+    // Direct strikes and auto-attacks only; area and ability damage is not attributed to a unit type.
+    protected resolveAttack(attackerId: string, targetId: string) {
+        const attacker = this.state.units.find((unit) => unit.id === attackerId);
+        const hpBefore = Math.max(0, this.state.units.find((unit) => unit.id === targetId)?.stats.hp ?? 0);
+
+        super.resolveAttack(attackerId, targetId);
+
+        const hpAfter = Math.max(0, this.state.units.find((unit) => unit.id === targetId)?.stats.hp ?? 0);
+        if (attacker && hpBefore > hpAfter) {
+            this.recorder.recordDamage(attacker.playerId, attacker.type, hpBefore - hpAfter, this.getTalentIds(attacker.playerId));
+        }
+    }
+
+    public buyShopItem(item: ShopItem, isRemote: boolean = false, playerIdOverride?: PlayerId) {
+        const playerId = playerIdOverride || this.state.currentTurn;
+        const creditsBefore = this.state.credits[playerId];
+        const ordersBefore = this.state.pendingOrders[playerId].length + this.state.decks[playerId].length;
+
+        super.buyShopItem(item, isRemote, playerIdOverride);
+
+        const ordersAfter = this.state.pendingOrders[playerId].length + this.state.decks[playerId].length;
+        if (ordersAfter > ordersBefore) {
+            this.recorder.recordPurchase(item.type, creditsBefore - this.state.credits[playerId], this.getTalentIds(playerId));
+        }
+    }
+
+    private getTalentIds(playerId: PlayerId): string[] {
+        return (this.state.playerTalents[playerId] || []).map((talent) => talent.id);
+    }
+}
+
+const playBotMatch = (
+    config: BotMatchConfig,
+    index: number,
+    maxRounds: number,
+    recorder: BalanceStatsRecorder
+): BotMatchResult => {
+    const seed = (config.seed + index) >>> 0;
+    const engine = new InstrumentedRulesEngine({ scheduler: new VirtualScheduler() }, recorder);
+    recorder.beginMatch();
+    engine.startGame(config.mapId, false, undefined, undefined, seed);
+
+    const controllers = new Map<PlayerId, AiController>(
+        engine.getState().activePlayerIds.map((playerId) => [
+            playerId,
+            new AiController(playerId, config.difficulties[playerId] || 'HARD', seed)
+        ])
+    );
+
+    let idlePolls = 0;
+    let abandoned = false;
+    while (true) {
+        const state = engine.getState();
+        if (state.winner || state.appStatus === AppStatus.GAME_OVER || state.roundNumber > maxRounds) break;
+
+        const command = controllers.get(state.currentTurn)?.nextCommand(engine) || null;
+        if (!command) {
+            idlePolls += 1;
+            if (idlePolls > MAX_IDLE_POLLS) {
+                abandoned = true;
+                break;
+            }
+            engine.settle();
+            continue;
+        }
+        idlePolls = 0;
+
+        if (command.action === 'PLACE_UNIT') {
+            const card = state.decks[state.currentTurn].find((entry) => entry.id === command.data.cardId);
+            if (card) recorder.recordDeployment(card.type);
+        } else if (command.action === 'TALENT_CHOOSE') {
+            recorder.recordTalentPick(command.data.playerId, command.data.talentId);
+        }
+
+        engine.applyCommand(command);
+        engine.settle();
+    }
+
+    const finalState = engine.getState();
+    recorder.endMatch(finalState.winner);
+    return {
+        index,
+        seed,
+        winner: finalState.winner ? [...finalState.winner] : null,
+        rounds: Math.min(finalState.roundNumber, maxRounds),
+        abandoned
+    };
+};
+
+export const runBotMatches = (config: BotMatchConfig): BotMatchReport => {
+    const probe = new RulesEngine({ scheduler: new VirtualScheduler() });
+    if (!probe.getState().availableMaps.some((map) => map.id === config.mapId)) {
+        throw new Error(`Unknown map "${config.mapId}". Available: ${probe.getState().availableMaps.map((map) => map.id).join(', ')}`);
+    }
+
+    const maxRounds = config.maxRounds ?? DEFAULT_MAX_ROUNDS;
+    const recorder = new BalanceStatsRecorder();
+    const results: BotMatchResult[] = [];
+
+    for (let index = 0; index < config.matches; index++) {
+        const result = playBotMatch(config, index, maxRounds, recorder);
+        results.push(result);
+        config.onMatchComplete?.(result);
+    }
+
+    const seats = new Set<PlayerId>();
+    results.forEach((result) => result.winner?.forEach((playerId) => seats.add(playerId)));
+    probe.startGame(config.mapId, false, undefined, undefined, config.seed);
+    probe.getState().activePlayerIds.forEach((playerId) => seats.add(playerId));
+
+    const slots: Partial<Record<PlayerId, SlotStats>> = {};
+    CONTESTED_PLAYER_IDS.filter((playerId) => seats.has(playerId)).forEach((playerId) => {
+        const wins = results.filter((result) => result.winner?.includes(playerId)).length;
+        slots[playerId] = {
+            difficulty: config.difficulties[playerId] || 'HARD',
+            wins,
+            winRate: results.length > 0 ? wins / results.length : 0
+        };
+    });
+
+    return {
+        mapId: config.mapId,
+        matches: results.length,
+        seed: config.seed,
+        maxRounds,
+        draws: results.filter((result) => !result.winner && !result.abandoned).length,
+        abandoned: results.filter((result) => result.abandoned).length,
+        averageRounds: results.length > 0
+            ? results.reduce((sum, result) => sum + result.rounds, 0) / results.length
+            : 0,
+        slots,
+        unitTypes: recorder.unitTypes,
+        talents: recorder.talents,
+        results
+    };
+};
@@ -0,0 +1,220 @@
+import { GameState, PlayerId, ReplayTurnMarker } from '../types';
+import { RulesEngine, RulesEvent, VirtualScheduler, MapJsonShape } from './rulesEngine';
+
+// Plays back a replay file recorded by the match server. Checkpoints are the replicated state at
+// the start of every turn; commands in between are re-simulated headless on top of them.
+
+export const REPLAY_FORMAT = 'neon-tactics-replay';
+export const REPLAY_VERSION = 1;
+
+export interface ReplayCommand {
+    action: string;
+    data: any;
+    meta: {
+        actorPlayerId: PlayerId | null;
+        timestamp: number;
+        turnBefore?: PlayerId;
+    };
+}
+
+export interface ReplayCheckpoint {
+    commandIndex: number;
+    roundNumber: number;
+    currentTurn: PlayerId;
+    timestamp: number;
+    state: Record<string, any>;
+}
+
+export interface MatchReplay {
+    format: typeof REPLAY_FORMAT;
+    version: number;
+    roomId: string;
+    mapId: string;
+    mapData: MapJsonShape | null;
+    turnOrder: PlayerId[];
+    hostAdminEnabled: boolean;
+    fogOfWarDisabled: boolean;
+    startedAt: number;
+    playerCharacters: Partial<Record<PlayerId, string | null>>;
+    checkpoints: ReplayCheckpoint[];
+    commands: ReplayCommand[];
+}
+
+export const parseReplay = (rawJson: string): MatchReplay => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(rawJson);
+    } catch {
+        throw new Error('Replay file is not valid JSON.');
+    }
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error('Replay file must contain a JSON object.');
+    }
+
+    const candidate = parsed as Record<string, any>;
+    if (candidate.format !== REPLAY_FORMAT) {
+        throw new Error('File is not a match replay.');
+    }
+
+    if (typeof candidate.version !== 'number' || candidate.version > REPLAY_VERSION) {
+        throw new Error(`Unsupported replay version: ${candidate.version}.`);
+    }
+
+    if (!Array.isArray(candidate.commands) || !Array.isArray(candidate.checkpoints)) {
+        throw new Error('Replay file has no command log.');
+    }
+
+    if (candidate.checkpoints.length === 0 || !candidate.checkpoints[0]?.state?.terrain) {
+        throw new Error('Replay file has no starting checkpoint.');
+    }
+
+    return candidate as MatchReplay;
+};
+
+export class ReplayPlayer {
+    private engine: RulesEngine;
+    private cursor: number;
+    private pendingEvents: RulesEvent[] = [];
+    private recordEvents = false;
+
+    constructor(private readonly replay: MatchReplay) {
+        this.engine = this.createEngine(0);
+        this.cursor = replay.checkpoints[0].commandIndex;
+    }
+
+    public getReplay(): MatchReplay {
+        return this.replay;
+    }
+
+    public getCursor(): number {
+        return this.cursor;
+    }
+
+    public getTotalCommands(): number {
+        return this.replay.commands.length;
+    }
+
+    public isAtEnd(): boolean {
+        return this.cursor >= this.replay.commands.length;
+    }
+
+    public getState(): GameState {
+        return this.engine.getState();
+    }
+
+    public getTurnMarkers(): ReplayTurnMarker[] {
+        return this.replay.checkpoints.map((checkpoint, checkpointIndex) => ({
+            checkpointIndex,
+            commandIndex: checkpoint.commandIndex,
+            roundNumber: checkpoint.roundNumber,
+            currentTurn: checkpoint.currentTurn
+        }));
+    }
+
+    public getActiveTurnIndex(): number {
+        return this.findCheckpointIndex(this.cursor);
+    }
+
+    // Applies the next recorded command and returns the rules events it produced (for visual cues).
+    public step(): RulesEvent[] {
+        if (this.isAtEnd()) return [];
+
+        this.pendingEvents = [];
+        this.recordEvents = true;
+        this.applyCommandAt(this.cursor);
+        this.recordEvents = false;
+        this.cursor += 1;
+
+        const checkpointIndex = this.replay.checkpoints.findIndex((entry) => entry.commandIndex === this.cursor);
+        if (checkpointIndex !== -1) {
+            // Turn boundaries snap to the recorded state so timer damage and drift never accumulate.
+            this.engine.restoreReplicatedState(structuredClone(this.resolveCheckpointState(checkpointIndex)));
+        }
+
+        const events = this.pendingEvents;
+        this.pendingEvents = [];
+        return events;
+    }
+
+    public seekToTurn(checkpointIndex: number) {
+        const checkpoint = this.replay.checkpoints[checkpointIndex];
+        if (!checkpoint) return;
+        this.seek(checkpoint.commandIndex);
+    }
+
+    public seek(commandIndex: number) {
+        const firstCommandIndex = this.replay.checkpoints[0].commandIndex;
+        const target = Math.max(firstCommandIndex, Math.min(commandIndex, this.replay.commands.length));
+        const checkpointIndex = this.findCheckpointIndex(target);
+        const checkpoint = this.replay.checkpoints[checkpointIndex];
+
+        this.engine = this.createEngine(checkpointIndex);
+        this.cursor = checkpoint.commandIndex;
+        while (this.cursor < target) {
+            this.applyCommandAt(this.cursor);
+            this.cursor += 1;
+        }
+    }
+
+    private findCheckpointIndex(commandIndex: number): number {
+        let found = 0;
+        this.replay.checkpoints.forEach((checkpoint, index) => {
+            if (checkpoint.commandIndex <= commandIndex) {
+                found = index;
+            }
+        });
+        return found;
+    }
+
+    // The recorder only stores terrain on checkpoints where it changed.
+    private resolveCheckpointState(checkpointIndex: number): Record<string, any> {
+        const state = this.replay.checkpoints[checkpointIndex].state;
+        if (state.terrain) return state;
+
+        for (let index = checkpointIndex - 1; index >= 0; index--) {
+            const terrain = this.replay.checkpoints[index].state.terrain;
+            if (terrain) {
+                return { ...state, terrain };
+            }
+        }
+        return state;
+    }
+
+    private applyCommandAt(index: number) {
+        const command = this.replay.commands[index];
+        try {
+            this.engine.applyCommand({
+                action: command.action,
+                data: structuredClone(command.data),
+                actorPlayerId: command.meta?.actorPlayerId ?? undefined
+            });
+            this.engine.settle();
+        } catch (error) {
+            console.warn('[REPLAY][COMMAND_FAILED]', { index, action: command.action, error });
+        }
+    }
+
+    // A fresh headless engine restored to the given checkpoint; the recording itself is never mutated.
+    private createEngine(checkpointIndex: number): RulesEngine {
+        const engine = new RulesEngine({
+            scheduler: new VirtualScheduler(),
+            onEvent: (event) => {
+                if (this.recordEvents) {
+                    this.pendingEvents.push(event);
+                }
+            }
+        });
+        engine.startHeadlessMatch({
+            roomId: this.replay.roomId,
+            mapId: this.replay.mapId,
+            mapData: this.replay.mapData,
+            turnOrder: this.replay.turnOrder,
+            hostAdminEnabled: this.replay.hostAdminEnabled,
+            fogOfWarDisabled: true
+        });
+        engine.applyHeadlessCharacterSelection(this.replay.playerCharacters);
+        engine.restoreReplicatedState(structuredClone(this.resolveCheckpointState(checkpointIndex)));
+        return engine;
+    }
+}
@@ -0,0 +1,111 @@
+import { GameState } from '../types';
+import { MapJsonShape } from './rulesEngine';
+import { createDefaultMatchRules } from '../utils/matchRules';
+
+// Solo/dev match saves kept in localStorage. Every save carries SAVE_SCHEMA_VERSION; when GameState
+// changes shape, bump the version and add a migration from the previous one below.
+
+export const SAVE_SCHEMA_VERSION = 2;
+export const SAVE_SLOT_COUNT = 3;
+
+const SAVE_STORAGE_KEY_PREFIX = 'neon-tactics-save-slot-';
+
+export interface SaveGameFile {
+    schemaVersion: number;
+    savedAt: number;
+    turnElapsedMs: number; // Turn timer progress, re-anchored to the clock on load
+    mapData: MapJsonShape | null; // Imported maps are not bundled, so the save carries them
+    state: GameState;
+}
+
+export interface SaveSlotSummary {
+    slot: number;
+    savedAt: number;
+    mapId: string;
+    roundNumber: number;
+    isDevMode: boolean;
+}
+
+// Keyed by the version a save is migrated FROM; each step returns the save at version + 1.
+const SAVE_MIGRATIONS: Record<number, (save: any) => any> = {
+    // 1 -> 2: matches before GameState.matchRules ran on the default rules.
+    1: (save) => ({ ...save, state: { ...save.state, matchRules: createDefaultMatchRules() } })
+};
+
+export const migrateSaveGame = (save: any): SaveGameFile => {
+    if (!save || typeof save !== 'object' || typeof save.schemaVersion !== 'number' || !save.state) {
+        throw new Error('Save data is corrupted.');
+    }
+
+    if (save.schemaVersion > SAVE_SCHEMA_VERSION) {
+        throw new Error(`Save was written by a newer version (schema ${save.schemaVersion}).`);
+    }
+
+    let migrated = save;
+    while (migrated.schemaVersion < SAVE_SCHEMA_VERSION) {
+        const migrate = SAVE_MIGRATIONS[migrated.schemaVersion];
+        if (!migrate) {
+            throw new Error(`No migration for save schema ${migrated.schemaVersion}.`);
+        }
+        migrated = { ...migrate(migrated), schemaVersion: migrated.schemaVersion + 1 };
+    }
+
+    return migrated as SaveGameFile;
+};
+
+const getStorage = (): Storage | null => {
+    if (typeof window === 'undefined') {
+        return null;
+    }
+    return window.localStorage;
+};
+
+const getSlotKey = (slot: number) => `${SAVE_STORAGE_KEY_PREFIX}${slot}`;
+
+export const writeSaveSlot = (slot: number, save: SaveGameFile) => {
+    const storage = getStorage();
+    if (!storage) {
+        throw new Error('Saving is not available in this environment.');
+    }
+
+    try {
+        storage.setItem(getSlotKey(slot), JSON.stringify(save));
+    } catch {
+        throw new Error('Not enough browser storage to save this match.');
+    }
+};
+
+export const readSaveSlot = (slot: number): SaveGameFile | null => {
+    const raw = getStorage()?.getItem(getSlotKey(slot));
+    if (!raw) return null;
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch {
+        throw new Error('Save data is corrupted.');
+    }
+    return migrateSaveGame(parsed);
+};
+
+export const deleteSaveSlot = (slot: number) => {
+    getStorage()?.removeItem(getSlotKey(slot));
+};
+
+export const listSaveSlots = (): Array<SaveSlotSummary | null> => {
+    return Array.from({ length: SAVE_SLOT_COUNT }, (_, slot) => {
+        try {
+            const save = readSaveSlot(slot);
+            if (!save) return null;
+            return {
+                slot,
+                savedAt: save.savedAt,
+                mapId: save.state.mapId,
+                roundNumber: save.state.roundNumber,
+                isDevMode: save.state.isDevMode
+            };
+        } catch {
+            return null;
+        }
+    });
+};
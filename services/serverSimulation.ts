@@ -0,0 +1,85 @@
+import { PlayerId } from '../types';
+import { RulesEngine, HeadlessMatchConfig, RulesScheduler, realtimeScheduler } from './rulesEngine';
+
+export { omitRandomState, redactCueForViewer, redactSyncStateForPlayer } from './syncRedaction';
+export { applySyncDelta, createSyncDelta, isSyncDeltaEmpty } from './syncDelta';
+export { arePlayersAlliedInMode } from '../utils/fogOfWar';
+export { TURN_TIMER_SECONDS } from '../constants';
+export { normalizeMatchRules } from '../utils/matchRules';
+
+// Entry point for the Node match server (bundled by `npm run build:server`).
+// Each started room owns one rules engine; clients only send intents.
+
+const SIMULATION_TICK_MS = 250;
+
+export interface ServerSimulationConfig extends HeadlessMatchConfig {
+    // Replicated state to resume from, e.g. a room restored from the lobby store after a restart.
+    initialState?: Record<string, unknown> | null;
+    onOutput: (action: string, data: any) => void;
+}
+
+export interface ServerSimulation {
+    // Returns the rejection reason when the rules refuse the command.
+    applyCommand(action: string, data: any, actorPlayerId?: PlayerId): string | null;
+    applyCharacterSelection(playerCharacters: Partial<Record<PlayerId, string | null>>): void;
+    getCurrentTurn(): PlayerId;
+    getSnapshot(): Record<string, unknown>;
+    dispose(): void;
+}
+
+// Real-time scheduler that remembers what is still pending, so a disposed simulation stops acting at once
+// instead of firing queued impacts, death cleanup, creep steps and snapshots into the room afterwards.
+export const createCancellableScheduler = (): RulesScheduler & { cancelAll(): void } => {
+    const pending = new Set<() => void>();
+    return {
+        schedule: (callback, delayMs) => {
+            const cancel = realtimeScheduler.schedule(() => {
+                pending.delete(cancel);
+                callback();
+            }, delayMs);
+            pending.add(cancel);
+            return () => {
+                pending.delete(cancel);
+                cancel();
+            };
+        },
+        cancelAll: () => {
+            pending.forEach((cancel) => cancel());
+            pending.clear();
+        }
+    };
+};
+
+export const createServerSimulation = (config: ServerSimulationConfig): ServerSimulation => {
+    const { onOutput, initialState, ...matchConfig } = config;
+    const scheduler = createCancellableScheduler();
+    let disposed = false;
+    const engine = new RulesEngine({
+        scheduler,
+        // Snapshots share nested objects with live state; detach them before the server keeps them as baselines.
+        onEvent: (event) => {
+            if (disposed) return;
+            onOutput(event.action, event.action === 'SYNC_STATE' ? structuredClone(event.data) : event.data);
+        }
+    });
+
+    engine.startHeadlessMatch(matchConfig);
+    if (initialState) {
+        engine.restoreReplicatedState(initialState);
+    }
+
+    // Clients animate moves from the MOVE event; the server walks the same path in real time.
+    const tickIntervalId = setInterval(() => engine.tick(), SIMULATION_TICK_MS);
+
+    return {
+        applyCommand: (action, data, actorPlayerId) => engine.applyCommand({ action, data, actorPlayerId }).rejection,
+        applyCharacterSelection: (playerCharacters) => engine.applyHeadlessCharacterSelection(playerCharacters),
+        getCurrentTurn: () => engine.getCurrentTurn(),
+        getSnapshot: () => engine.getReplicatedState(),
+        dispose: () => {
+            disposed = true;
+            clearInterval(tickIntervalId);
+            scheduler.cancelAll();
+        }
+    };
+};
@@ -0,0 +1,110 @@
+// Incremental replication: the server remembers the last snapshot it sent each seat and only sends what
+// changed since, numbered so a client that misses one can ask for a full resync. Units and collectibles
+// are patched per entity; every other top-level field is replaced wholesale when its contents change.
+
+type ReplicatedEntity = { id: string };
+
+export interface EntityPatch<T extends ReplicatedEntity> {
+    upserted: T[];
+    removedIds: string[];
+    // Full id order, only present when the patched list would otherwise come out in a different order.
+    order?: string[];
+}
+
+export interface SyncDelta {
+    seq: number;
+    baseSeq: number;
+    fields: Record<string, unknown>;
+    units?: EntityPatch<ReplicatedEntity>;
+    collectibles?: EntityPatch<ReplicatedEntity>;
+}
+
+export type ReplicatedSnapshot = Record<string, unknown>;
+
+const ENTITY_FIELDS = ['units', 'collectibles'] as const;
+
+const isSameValue = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const patchEntityList = <T extends ReplicatedEntity>(base: T[], patch: EntityPatch<T>): T[] => {
+    const removed = new Set(patch.removedIds);
+    const byId = new Map<string, T>();
+    base.forEach((entity) => {
+        if (!removed.has(entity.id)) byId.set(entity.id, entity);
+    });
+
+    const order = patch.order || [
+        ...base.filter((entity) => !removed.has(entity.id)).map((entity) => entity.id),
+        ...patch.upserted.filter((entity) => !byId.has(entity.id)).map((entity) => entity.id)
+    ];
+    patch.upserted.forEach((entity) => byId.set(entity.id, entity));
+
+    return order
+        .map((id) => byId.get(id))
+        .filter((entity): entity is T => !!entity);
+};
+
+const diffEntityList = <T extends ReplicatedEntity>(previous: T[], next: T[]): EntityPatch<T> | null => {
+    const previousById = new Map(previous.map((entity) => [entity.id, entity]));
+    const nextIds = new Set(next.map((entity) => entity.id));
+
+    const upserted = next.filter((entity) => !isSameValue(previousById.get(entity.id), entity));
+    const removedIds = previous
+        .filter((entity) => !nextIds.has(entity.id))
+        .map((entity) => entity.id);
+
+    if (upserted.length === 0 && removedIds.length === 0) {
+        const sameOrder = previous.length === next.length
+            && previous.every((entity, index) => entity.id === next[index].id);
+        if (sameOrder) return null;
+    }
+
+    const patch: EntityPatch<T> = { upserted, removedIds };
+    const patchedIds = patchEntityList(previous, patch).map((entity) => entity.id);
+    const nextOrder = next.map((entity) => entity.id);
+    if (patchedIds.length !== nextOrder.length || patchedIds.some((id, index) => id !== nextOrder[index])) {
+        patch.order = nextOrder;
+    }
+    return patch;
+};
+
+// Fields missing from `next` are treated as unchanged: snapshots leave static data such as terrain out.
+export const createSyncDelta = (
+    previous: ReplicatedSnapshot,
+    next: ReplicatedSnapshot,
+    baseSeq: number,
+    seq: number
+): SyncDelta => {
+    const delta: SyncDelta = { seq, baseSeq, fields: {} };
+
+    Object.keys(next).forEach((key) => {
+        if ((ENTITY_FIELDS as readonly string[]).includes(key)) return;
+        if (!isSameValue(previous[key], next[key])) {
+            delta.fields[key] = next[key];
+        }
+    });
+
+    ENTITY_FIELDS.forEach((key) => {
+        if (!Array.isArray(next[key])) return;
+        const previousList = Array.isArray(previous[key]) ? previous[key] as ReplicatedEntity[] : [];
+        const patch = diffEntityList(previousList, next[key] as ReplicatedEntity[]);
+        if (patch) delta[key] = patch;
+    });
+
+    return delta;
+};
+
+// Returns a new snapshot; `base` is left untouched so callers can keep it as the previous baseline.
+export const applySyncDelta = (base: ReplicatedSnapshot, delta: SyncDelta): ReplicatedSnapshot => {
+    const next: ReplicatedSnapshot = { ...base, ...delta.fields };
+    ENTITY_FIELDS.forEach((key) => {
+        const patch = delta[key];
+        if (!patch) return;
+        const baseList = Array.isArray(base[key]) ? base[key] as ReplicatedEntity[] : [];
+        next[key] = patchEntityList(baseList, patch);
+    });
+    return next;
+};
+
+export const isSyncDeltaEmpty = (delta: SyncDelta) => (
+    Object.keys(delta.fields).length === 0 && !delta.units && !delta.collectibles
+);
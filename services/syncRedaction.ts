@@ -0,0 +1,84 @@
+import { Card, MapBounds, MatchMode, PlayerId, ShopItem, Talent, TerrainData, Unit } from '../types';
+import { arePlayersAlliedInMode, collectRevealedTiles, isUnitInRevealedArea } from '../utils/fogOfWar';
+
+// The slice of a SYNC_STATE payload that carries hidden information. Everything else passes through untouched.
+export interface RedactableSyncState {
+    terrain?: Record<string, TerrainData>;
+    units: Unit[];
+    mapBounds: MapBounds;
+    matchMode: MatchMode;
+    fogOfWarDisabled?: boolean;
+    decks: Record<PlayerId, Card[]>;
+    shopStock: Record<PlayerId, ShopItem[]>;
+    pendingOrders: Record<PlayerId, ShopItem[]>;
+    recentlyDeliveredCardIds?: Record<PlayerId, string[]>;
+    currentTurn?: PlayerId;
+    talentChoices?: Talent[];
+    rngSeed?: number;
+    rngState?: number;
+}
+
+// Drops the PRNG seed and position. Clients run the same generator, so with them they could predict misses,
+// shop rolls and talent offers; only the authority that rolls needs them.
+export const omitRandomState = <T extends RedactableSyncState>(state: T): T => {
+    const { rngSeed, rngState, ...rest } = state;
+    return rest as T;
+};
+
+const keepOwnEntries = <T>(record: Record<PlayerId, T[]>, viewerId: PlayerId): Record<PlayerId, T[]> => (
+    Object.keys(record).reduce((acc, playerId) => {
+        acc[playerId as PlayerId] = playerId === viewerId ? record[playerId as PlayerId] : [];
+        return acc;
+    }, {} as Record<PlayerId, T[]>)
+);
+
+// Builds the view of a snapshot that one seat is allowed to receive: units its side cannot see are dropped,
+// and other players' hands, shop stock, pending orders and talent offers are emptied. Allies share vision but not
+// hands. The PRNG state never reaches a redacted view.
+// Static terrain is only in full snapshots, so callers replicating deltas pass the terrain they kept.
+export const redactSyncStateForPlayer = <T extends RedactableSyncState>(
+    state: T,
+    viewerId: PlayerId,
+    terrain: Record<string, TerrainData> | undefined = state.terrain
+): T => {
+    let units = state.units;
+    if (!state.fogOfWarDisabled) {
+        const revealed = collectRevealedTiles(viewerId, {
+            terrain: terrain || {},
+            units: state.units,
+            mapBounds: state.mapBounds,
+            matchMode: state.matchMode
+        });
+        units = state.units.filter((unit) => (
+            arePlayersAlliedInMode(state.matchMode, viewerId, unit.playerId)
+            || isUnitInRevealedArea(unit, revealed)
+        ));
+    }
+
+    return {
+        ...omitRandomState(state),
+        units,
+        decks: keepOwnEntries(state.decks, viewerId),
+        shopStock: keepOwnEntries(state.shopStock, viewerId),
+        pendingOrders: keepOwnEntries(state.pendingOrders, viewerId),
+        ...(state.recentlyDeliveredCardIds
+            ? { recentlyDeliveredCardIds: keepOwnEntries(state.recentlyDeliveredCardIds, viewerId) }
+            : {}),
+        ...(state.talentChoices && state.currentTurn !== viewerId ? { talentChoices: [] } : {})
+    };
+};
+
+// Fields through which a cue or relayed action names a unit that acts or is acted upon.
+const CUE_UNIT_FIELDS = ['unitId', 'attackerId', 'targetId', 'sourceUnitId', 'targetUnitId', 'hackerId'];
+
+// Returns the cue as a viewer whose snapshot holds `visibleUnitIds` may receive it, or null when it names a unit
+// that viewer cannot see. Pulse lists are trimmed to the visible units; cues that name no unit pass unchanged.
+export const redactCueForViewer = (data: any, visibleUnitIds: ReadonlySet<string>): any | null => {
+    if (!data || typeof data !== 'object') return data;
+    const hidesUnit = CUE_UNIT_FIELDS.some((field) => typeof data[field] === 'string' && !visibleUnitIds.has(data[field]));
+    if (hidesUnit) return null;
+    if (!Array.isArray(data.pulses)) return data;
+
+    const pulses = data.pulses.filter((pulse: any) => visibleUnitIds.has(pulse?.unitId));
+    return pulses.length > 0 ? { ...data, pulses } : null;
+};
@@ -0,0 +1,117 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PlayerId, UnitType } from '../types';
+import { addUnit, createTestEngine } from './helpers';
+
+describe('hasLineOfSight', () => {
+    it('sees across open ground', () => {
+        const engine = createTestEngine();
+        const { originX: x, originZ: z } = engine.getState().mapBounds;
+        const attacker = addUnit(engine, UnitType.SOLDIER, { x, z }, PlayerId.ONE);
+        const target = addUnit(engine, UnitType.SOLDIER, { x: x + 3, z }, PlayerId.TWO);
+
+        assert.equal(engine.hasLineOfSight(attacker, target), true);
+    });
+
+    it('is blocked by a unit that blocks line of sight', () => {
+        const engine = createTestEngine();
+        const { originX: x, originZ: z } = engine.getState().mapBounds;
+        const attacker = addUnit(engine, UnitType.SOLDIER, { x, z }, PlayerId.ONE);
+        const target = addUnit(engine, UnitType.SOLDIER, { x: x + 3, z }, PlayerId.TWO);
+        addUnit(engine, UnitType.WALL, { x: x + 2, z }, PlayerId.NEUTRAL);
+
+        assert.equal(engine.hasLineOfSight(attacker, target), false);
+    });
+
+    it('ignores units that do not block line of sight', () => {
+        const engine = createTestEngine();
+        const { originX: x, originZ: z } = engine.getState().mapBounds;
+        const attacker = addUnit(engine, UnitType.SOLDIER, { x, z }, PlayerId.ONE);
+        const target = addUnit(engine, UnitType.SOLDIER, { x: x + 3, z }, PlayerId.TWO);
+        addUnit(engine, UnitType.SOLDIER, { x: x + 2, z }, PlayerId.ONE);
+
+        assert.equal(engine.hasLineOfSight(attacker, target), true);
+    });
+
+    it('is not blocked by a wall off to the side of the line', () => {
+        const engine = createTestEngine();
+        const { originX: x, originZ: z } = engine.getState().mapBounds;
+        const attacker = addUnit(engine, UnitType.SOLDIER, { x, z }, PlayerId.ONE);
+        const target = addUnit(engine, UnitType.SOLDIER, { x: x + 3, z }, PlayerId.TWO);
+        addUnit(engine, UnitType.WALL, { x: x + 2, z: z + 2 }, PlayerId.NEUTRAL);
+
+        assert.equal(engine.hasLineOfSight(attacker, target), true);
+    });
+
+    it('never lets the attacker or target block their own line', () => {
+        const engine = createTestEngine();
+        const { originX: x, originZ: z } = engine.getState().mapBounds;
+        const attacker = addUnit(engine, UnitType.WALL, { x, z }, PlayerId.ONE);
+        const target = addUnit(engine, UnitType.WALL, { x: x + 1, z }, PlayerId.TWO);
+
+        assert.equal(engine.hasLineOfSight(attacker, target), true);
+    });
+});
+
+describe('applyDamageToUnit', () => {
+    it('removes HP and never drops below zero', () => {
+        const engine = createTestEngine();
+        const unit = addUnit(engine, UnitType.SOLDIER, { x: 0, z: 0 }, PlayerId.ONE);
+
+        const hit = engine.applyDamageToUnit(unit, 30);
+        assert.equal(hit.unit.stats.hp, unit.stats.hp - 30);
+        assert.equal(hit.hpDamage, 30);
+
+        const overkill = engine.applyDamageToUnit(hit.unit, 500);
+        assert.equal(overkill.unit.stats.hp, 0);
+        assert.equal(overkill.hpDamage, hit.unit.stats.hp);
+    });
+
+    it('does nothing for zero or negative damage', () => {
+        const engine = createTestEngine();
+        const unit = addUnit(engine, UnitType.SOLDIER, { x: 0, z: 0 }, PlayerId.ONE);
+
+        const result = engine.applyDamageToUnit(unit, 0);
+        assert.equal(result.unit, unit);
+        assert.equal(result.hpDamage, 0);
+    });
+
+    it('lets a kinetic shield soak damage before HP', () => {
+        const engine = createTestEngine();
+        const base = addUnit(engine, UnitType.SOLDIER, { x: 0, z: 0 }, PlayerId.ONE);
+        const unit = { ...base, effects: [engine.createKineticShieldEffect(base.id)] };
+
+        const result = engine.applyDamageToUnit(unit, 30);
+        assert.equal(result.shieldAbsorbed, 30);
+        assert.equal(result.shieldRemaining, 20);
+        assert.equal(result.shieldBroken, false);
+        assert.equal(result.hpDamage, 0);
+        assert.equal(result.unit.stats.hp, base.stats.hp);
+        assert.equal(result.unit.effects.find((effect) => effect.name === 'KINETIC SHIELD')?.strength, 20);
+    });
+
+    it('breaks the kinetic shield and carries the overflow into HP', () => {
+        const engine = createTestEngine();
+        const base = addUnit(engine, UnitType.SOLDIER, { x: 0, z: 0 }, PlayerId.ONE);
+        const unit = { ...base, effects: [engine.createKineticShieldEffect(base.id, undefined, 20)] };
+
+        const result = engine.applyDamageToUnit(unit, 50);
+        assert.equal(result.shieldAbsorbed, 20);
+        assert.equal(result.shieldBroken, true);
+        assert.equal(result.hpDamage, 30);
+        assert.equal(result.unit.stats.hp, base.stats.hp - 30);
+        assert.ok(!result.unit.effects.some((effect) => effect.name === 'KINETIC SHIELD'));
+    });
+
+    it('ignores all damage while the immortality shield is up, kinetic shield included', () => {
+        const engine = createTestEngine();
+        const base = addUnit(engine, UnitType.SOLDIER, { x: 0, z: 0 }, PlayerId.ONE);
+        const unit = engine.applyImmortalityShield({ ...base, effects: [engine.createKineticShieldEffect(base.id)] });
+
+        const result = engine.applyDamageToUnit(unit, 80);
+        assert.equal(result.wasInvulnerable, true);
+        assert.equal(result.hpDamage, 0);
+        assert.equal(result.shieldAbsorbed, 0);
+        assert.equal(result.unit, unit);
+    });
+});
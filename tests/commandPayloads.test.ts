@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { COMMAND_RATE_LIMITS, takeCommandToken, validateCommandPayload } from '../server/commandPayloads.js';
+
+const MAP_BOUNDS = { originX: 0, originZ: 0, width: 16, height: 16 };
+
+describe('validateCommandPayload', () => {
+    it('accepts a payload that matches the action schema', () => {
+        assert.equal(validateCommandPayload('MOVE', { unitId: 'u1', path: [{ x: 1, z: 2 }, { x: 2, z: 2 }] }, MAP_BOUNDS), null);
+        assert.equal(validateCommandPayload('SKIP_TURN', {}, MAP_BOUNDS), null);
+        assert.equal(validateCommandPayload('SHOP_REROLL', { playerId: null }, MAP_BOUNDS), null);
+    });
+
+    it('names the offending field', () => {
+        assert.deepEqual(validateCommandPayload('ATTACK', { attackerId: 'u1' }, MAP_BOUNDS), { reason: 'MISSING_FIELD', field: 'targetId' });
+        assert.deepEqual(validateCommandPayload('ATTACK', { attackerId: 'u1', targetId: 'u2', damage: 99 }, MAP_BOUNDS), { reason: 'UNEXPECTED_FIELD', field: 'damage' });
+        assert.deepEqual(validateCommandPayload('SHOP_BUY', { playerId: 'NEUTRAL', itemId: 'i1' }, MAP_BOUNDS), { reason: 'INVALID_PLAYER_ID', field: 'playerId' });
+        assert.deepEqual(validateCommandPayload('ATTACK', { attackerId: 'u 1', targetId: 'u2' }, MAP_BOUNDS), { reason: 'INVALID_ID', field: 'attackerId' });
+    });
+
+    it('bounds coordinates and paths by the map', () => {
+        assert.deepEqual(validateCommandPayload('TELEPORT', { sourceUnitId: 'u1', x: 16, z: 0 }, MAP_BOUNDS), { reason: 'COORDINATE_OUT_OF_BOUNDS', field: 'x' });
+        assert.deepEqual(validateCommandPayload('TELEPORT', { sourceUnitId: 'u1', x: 1.5, z: 0 }, MAP_BOUNDS), { reason: 'INVALID_COORDINATE', field: 'x' });
+        assert.equal(validateCommandPayload('TELEPORT', { sourceUnitId: 'u1', x: 16, z: 0 }), null);
+
+        const longPath = Array.from({ length: 33 }, (_, index) => ({ x: index % 16, z: 0 }));
+        assert.deepEqual(validateCommandPayload('MOVE', { unitId: 'u1', path: longPath }, MAP_BOUNDS), { reason: 'PATH_TOO_LONG', field: 'path' });
+    });
+
+    it('rejects unknown actions, non-objects and oversized payloads', () => {
+        assert.deepEqual(validateCommandPayload('TALENT_SELECTION_START', {}, MAP_BOUNDS), { reason: 'UNSUPPORTED_ACTION', field: null });
+        assert.deepEqual(validateCommandPayload('SKIP_TURN', [], MAP_BOUNDS), { reason: 'INVALID_PAYLOAD', field: null });
+        assert.deepEqual(
+            validateCommandPayload('CHARACTER_ACTION_TRIGGER', { actionId: 'a'.repeat(5000) }, MAP_BOUNDS),
+            { reason: 'PAYLOAD_TOO_LARGE', field: null }
+        );
+    });
+
+    it('only checks the turn fields of SYNC_STATE', () => {
+        assert.equal(validateCommandPayload('SYNC_STATE', { currentTurn: 'P2', units: new Array(500).fill({ id: 'u' }) }, MAP_BOUNDS), null);
+        assert.deepEqual(validateCommandPayload('SYNC_STATE', { currentTurn: 'P9' }, MAP_BOUNDS), { reason: 'INVALID_PLAYER_ID', field: 'currentTurn' });
+    });
+});
+
+describe('takeCommandToken', () => {
+    it('allows a burst up to capacity and then reports the wait', () => {
+        const buckets = {};
+        const { capacity, refillPerSecond } = COMMAND_RATE_LIMITS.command;
+        for (let index = 0; index < capacity; index += 1) {
+            assert.equal(takeCommandToken(buckets, 'command', 1000), 0);
+        }
+        assert.equal(takeCommandToken(buckets, 'command', 1000), Math.ceil(1000 / refillPerSecond));
+    });
+
+    it('refills over time and keeps each kind separate', () => {
+        const buckets = {};
+        const { capacity, refillPerSecond } = COMMAND_RATE_LIMITS.command;
+        for (let index = 0; index < capacity; index += 1) {
+            takeCommandToken(buckets, 'command', 1000);
+        }
+        assert.equal(takeCommandToken(buckets, 'sync', 1000), 0);
+        assert.ok(takeCommandToken(buckets, 'command', 1000) > 0);
+        assert.equal(takeCommandToken(buckets, 'command', 1000 + 1000 / refillPerSecond), 0);
+    });
+});
@@ -0,0 +1,164 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AppStatus, CardCategory, PlayerId, UnitType } from '../types';
+import { applyCommand } from '../services/rulesEngine';
+import { addUnit, createShopOrder, createTestEngine, getTalent, getUnit } from './helpers';
+
+const setup = () => {
+    const engine = createTestEngine();
+    const { originX: x, originZ: z } = engine.getState().mapBounds;
+    return { engine, x, z };
+};
+
+describe('command validation', () => {
+    it('refuses to detonate a unit the actor does not own', () => {
+        const { engine, x, z } = setup();
+        const enemyHeavy = addUnit(engine, UnitType.HEAVY, { x: x + 4, z: z + 4 }, PlayerId.TWO);
+
+        const { rejection } = engine.applyCommand({
+            action: 'SUICIDE_PROTOCOL',
+            data: { unitId: enemyHeavy.id, playerId: PlayerId.ONE },
+            actorPlayerId: PlayerId.ONE
+        });
+        engine.settle();
+
+        assert.equal(rejection, 'NOT_UNIT_OWNER');
+        assert.ok(!getUnit(engine, enemyHeavy.id).status.isDying);
+    });
+
+    it('refuses to break another player\'s mind-control link', () => {
+        const { engine, x, z } = setup();
+        const enemyHacker = addUnit(engine, UnitType.HACKER, { x: x + 4, z: z + 4 }, PlayerId.TWO);
+        enemyHacker.status.mindControlTargetId = 'controlled-unit';
+
+        const { rejection } = engine.applyCommand({ action: 'MIND_CONTROL_BREAK', data: { hackerId: enemyHacker.id }, actorPlayerId: PlayerId.ONE });
+
+        assert.equal(rejection, 'NOT_UNIT_OWNER');
+        assert.equal(getUnit(engine, enemyHacker.id).status.mindControlTargetId, 'controlled-unit');
+    });
+
+    it('checks the freeze source type and energy before the target is frozen', () => {
+        const { engine, x, z } = setup();
+        const medic = addUnit(engine, UnitType.MEDIC, { x, z }, PlayerId.ONE);
+        const soldier = addUnit(engine, UnitType.SOLDIER, { x: x + 1, z }, PlayerId.ONE);
+        const target = addUnit(engine, UnitType.SOLDIER, { x: x + 3, z }, PlayerId.TWO);
+        const freeze = (sourceUnitId: string) => engine.applyCommand({
+            action: 'FREEZE_TARGET',
+            data: { sourceUnitId, targetUnitId: target.id },
+            actorPlayerId: PlayerId.ONE
+        }).rejection;
+
+        assert.equal(freeze(medic.id), 'WRONG_UNIT_TYPE');
+        soldier.stats.energy = 0;
+        assert.equal(freeze(soldier.id), 'INSUFFICIENT_ENERGY');
+        soldier.stats.energy = 50;
+        assert.equal(freeze(soldier.id), null);
+        assert.ok(getUnit(engine, target.id).effects.some((effect) => effect.name === 'CRYO STASIS'));
+    });
+
+    it('refuses commands from a player whose turn it is not', () => {
+        const { engine, x, z } = setup();
+        const attacker = addUnit(engine, UnitType.SOLDIER, { x, z }, PlayerId.TWO);
+        const target = addUnit(engine, UnitType.SOLDIER, { x: x + 2, z }, PlayerId.ONE);
+
+        const result = applyCommand(engine.getState(), {
+            action: 'ATTACK',
+            data: { attackerId: attacker.id, targetId: target.id },
+            actorPlayerId: PlayerId.TWO
+        });
+
+        assert.equal(result.rejection, 'NOT_YOUR_TURN');
+        assert.equal(result.state.units.find((unit) => unit.id === target.id)?.stats.hp, target.stats.hp);
+    });
+
+    it('returns the engine state and the events the command emitted', () => {
+        const { engine, x, z } = setup();
+        const attacker = addUnit(engine, UnitType.SOLDIER, { x, z }, PlayerId.ONE);
+        const target = addUnit(engine, UnitType.SOLDIER, { x: x + 2, z }, PlayerId.TWO);
+
+        const result = engine.applyCommand({
+            action: 'ATTACK',
+            data: { attackerId: attacker.id, targetId: target.id },
+            actorPlayerId: PlayerId.ONE
+        });
+
+        assert.equal(result.rejection, null);
+        assert.equal(result.state, engine.getState());
+        assert.ok(result.events.some((event) => event.action === 'ATTACK_ANIMATION' && event.data.targetId === target.id));
+    });
+
+    it('never lets a command open a talent draft or pick a talent that was not offered', () => {
+        const { engine } = setup();
+        const state = engine.getState();
+        state.appStatus = AppStatus.TALENT_SELECTION;
+        state.talentChoices = [getTalent('t1')];
+        const credits = state.credits[PlayerId.ONE];
+
+        const start = engine.applyCommand({
+            action: 'TALENT_SELECTION_START',
+            data: { playerId: PlayerId.ONE, choices: [getTalent('t2')] },
+            actorPlayerId: PlayerId.ONE
+        });
+        const choose = engine.applyCommand({ action: 'TALENT_CHOOSE', data: { playerId: PlayerId.ONE, talentId: 't2' }, actorPlayerId: PlayerId.ONE });
+
+        assert.equal(start.rejection, 'ENGINE_ONLY_ACTION');
+        assert.equal(choose.rejection, 'TALENT_NOT_OFFERED');
+        assert.deepEqual(state.talentChoices.map((talent) => talent.id), ['t1']);
+        assert.equal(state.credits[PlayerId.ONE], credits);
+    });
+
+    it('requires the actor to hold the action card it plays', () => {
+        const { engine, x, z } = setup();
+        const target = addUnit(engine, UnitType.SOLDIER, { x: x + 4, z: z + 4 }, PlayerId.TWO);
+        const state = engine.getState();
+        state.decks[PlayerId.ONE] = [];
+        const strike = () => engine.applyCommand({
+            action: 'ION_CANNON_STRIKE',
+            data: { x: target.position.x, z: target.position.z, playerId: PlayerId.ONE },
+            actorPlayerId: PlayerId.ONE
+        }).rejection;
+
+        assert.equal(strike(), 'NO_ACTION_CARD');
+        engine.settle();
+        assert.equal(getUnit(engine, target.id).stats.hp, target.stats.hp);
+
+        state.decks[PlayerId.ONE] = [{ id: 'ion-card', category: CardCategory.ACTION, type: UnitType.ION_CANNON, name: 'Ion Cannon', cost: 0 }];
+        assert.equal(strike(), null);
+        engine.settle();
+        assert.deepEqual(state.decks[PlayerId.ONE], []);
+        assert.ok(getUnit(engine, target.id).stats.hp < target.stats.hp);
+    });
+
+    it('only buys what is in the actor\'s own shop stock', () => {
+        const { engine } = setup();
+        const state = engine.getState();
+        state.shopAvailable = true;
+        const opponentItem = state.shopStock[PlayerId.TWO][0];
+        assert.ok(opponentItem);
+
+        const { rejection } = engine.applyCommand({ action: 'SHOP_BUY', data: { playerId: PlayerId.ONE, itemId: opponentItem.id }, actorPlayerId: PlayerId.ONE });
+
+        assert.equal(rejection, 'ITEM_NOT_IN_STOCK');
+    });
+
+    it('plays Logistics Delay only with the card in hand', () => {
+        const { engine } = setup();
+        const state = engine.getState();
+        const order = createShopOrder(UnitType.SOLDIER, 2);
+        state.pendingOrders[PlayerId.TWO] = [order];
+        state.decks[PlayerId.ONE] = [];
+        const delay = () => engine.applyCommand({
+            action: 'LOGISTICS_DELAY_EXECUTE',
+            data: { playerId: PlayerId.ONE },
+            actorPlayerId: PlayerId.ONE
+        }).rejection;
+
+        assert.equal(delay(), 'NO_ACTION_CARD');
+        assert.equal(state.pendingOrders[PlayerId.TWO][0].deliveryTurns, 2);
+
+        state.decks[PlayerId.ONE] = [{ id: 'delay-card', category: CardCategory.ACTION, type: UnitType.LOGISTICS_DELAY, name: 'Logistics Delay', cost: 0 }];
+        assert.equal(delay(), null);
+        assert.equal(state.pendingOrders[PlayerId.TWO][0].deliveryTurns, 5);
+        assert.deepEqual(state.decks[PlayerId.ONE], []);
+    });
+});
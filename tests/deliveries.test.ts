@@ -0,0 +1,112 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PlayerId, UnitType } from '../types';
+import { MAX_INVENTORY_CAPACITY } from '../constants';
+import { createShopOrder, createTestEngine } from './helpers';
+
+describe('processDeliveries', () => {
+    it('counts orders down one round at a time and delivers them at zero', () => {
+        const engine = createTestEngine();
+        const state = engine.getState();
+        state.decks[PlayerId.ONE] = [];
+        state.pendingOrders[PlayerId.ONE] = [createShopOrder(UnitType.SOLDIER, 2)];
+
+        engine.processDeliveries(2);
+        assert.equal(state.pendingOrders[PlayerId.ONE].length, 1);
+        assert.equal(state.pendingOrders[PlayerId.ONE][0].deliveryTurns, 1);
+        assert.equal(state.decks[PlayerId.ONE].length, 0);
+
+        engine.processDeliveries(3);
+        assert.equal(state.pendingOrders[PlayerId.ONE].length, 0);
+        assert.equal(state.decks[PlayerId.ONE].length, 1);
+        assert.equal(state.decks[PlayerId.ONE][0].type, UnitType.SOLDIER);
+        assert.deepEqual(state.recentlyDeliveredCardIds[PlayerId.ONE], [state.decks[PlayerId.ONE][0].id]);
+    });
+
+    it('clears the recently delivered list on rounds with no drop', () => {
+        const engine = createTestEngine();
+        const state = engine.getState();
+        state.decks[PlayerId.ONE] = [];
+        state.pendingOrders[PlayerId.ONE] = [createShopOrder(UnitType.SOLDIER, 1)];
+
+        engine.processDeliveries(2);
+        assert.equal(state.recentlyDeliveredCardIds[PlayerId.ONE].length, 1);
+
+        engine.processDeliveries(3);
+        assert.deepEqual(state.recentlyDeliveredCardIds[PlayerId.ONE], []);
+    });
+
+    it('holds deliveries that do not fit the inventory for another round', () => {
+        const engine = createTestEngine();
+        const state = engine.getState();
+        state.decks[PlayerId.ONE] = [];
+        state.pendingOrders[PlayerId.ONE] = Array.from({ length: MAX_INVENTORY_CAPACITY - 1 }, () => createShopOrder(UnitType.SOLDIER, 1));
+        engine.processDeliveries(2);
+        assert.equal(state.decks[PlayerId.ONE].length, MAX_INVENTORY_CAPACITY - 1);
+
+        state.pendingOrders[PlayerId.ONE] = [createShopOrder(UnitType.HEAVY, 1), createShopOrder(UnitType.MEDIC, 1)];
+        engine.processDeliveries(3);
+        assert.equal(state.decks[PlayerId.ONE].length, MAX_INVENTORY_CAPACITY);
+        assert.equal(state.pendingOrders[PlayerId.ONE].length, 1);
+        assert.equal(state.pendingOrders[PlayerId.ONE][0].type, UnitType.MEDIC);
+        assert.equal(state.pendingOrders[PlayerId.ONE][0].deliveryTurns, 1);
+    });
+
+    it('keeps every player\'s orders separate', () => {
+        const engine = createTestEngine();
+        const state = engine.getState();
+        state.decks[PlayerId.ONE] = [];
+        state.decks[PlayerId.TWO] = [];
+        state.pendingOrders[PlayerId.ONE] = [createShopOrder(UnitType.SOLDIER, 1)];
+        state.pendingOrders[PlayerId.TWO] = [createShopOrder(UnitType.SOLDIER, 3)];
+
+        engine.processDeliveries(2);
+        assert.equal(state.decks[PlayerId.ONE].length, 1);
+        assert.equal(state.decks[PlayerId.TWO].length, 0);
+        assert.equal(state.pendingOrders[PlayerId.TWO][0].deliveryTurns, 2);
+    });
+
+    it('pays the supply injection on milestone rounds and schedules the next one', () => {
+        const engine = createTestEngine();
+        const state = engine.getState();
+        const creditsBefore = state.credits[PlayerId.ONE];
+
+        engine.processDeliveries(10);
+        assert.equal(state.credits[PlayerId.ONE], creditsBefore + 500);
+        assert.equal(state.nextDeliveryRound, 25);
+
+        engine.processDeliveries(11);
+        assert.equal(state.credits[PlayerId.ONE], creditsBefore + 500);
+    });
+});
+
+describe('processDeliveries with custom match rules', () => {
+    it('follows the configured delivery rounds and closes the shop on the last one', () => {
+        const engine = createTestEngine();
+        const state = engine.getState();
+        state.matchRules = { ...state.matchRules, deliveryRounds: [4, 8] };
+        const creditsBefore = state.credits[PlayerId.ONE];
+
+        engine.processDeliveries(10);
+        assert.equal(state.credits[PlayerId.ONE], creditsBefore);
+
+        engine.processDeliveries(4);
+        assert.equal(state.credits[PlayerId.ONE], creditsBefore + 500);
+        assert.equal(state.nextDeliveryRound, 8);
+
+        engine.processDeliveries(8);
+        assert.equal(state.shopAvailable, false);
+    });
+
+    it('caps deliveries at the configured inventory size', () => {
+        const engine = createTestEngine();
+        const state = engine.getState();
+        state.matchRules = { ...state.matchRules, maxInventoryCapacity: 5 };
+        state.decks[PlayerId.ONE] = [];
+        state.pendingOrders[PlayerId.ONE] = Array.from({ length: 7 }, () => createShopOrder(UnitType.SOLDIER, 1));
+
+        engine.processDeliveries(2);
+        assert.equal(state.decks[PlayerId.ONE].length, 5);
+        assert.equal(state.pendingOrders[PlayerId.ONE].length, 2);
+    });
+});
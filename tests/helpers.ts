@@ -0,0 +1,95 @@
+import { Effect, EmptyMapConfig, Position, PlayerId, ShopItem, Talent, TerrainData, Unit, UnitType } from '../types';
+import { RulesEngine, TALENT_POOL, VirtualScheduler } from '../services/rulesEngine';
+
+// Widens the protected rules the suite exercises; nothing else about the engine changes.
+export class TestRulesEngine extends RulesEngine {
+    public hasLineOfSight(attacker: Unit, target: Unit): boolean {
+        return super.hasLineOfSight(attacker, target);
+    }
+
+    public applyDamageToUnit(unit: Unit, incomingDamage: number) {
+        return super.applyDamageToUnit(unit, incomingDamage);
+    }
+
+    public createKineticShieldEffect(unitId: string, existingEffectId?: string, strength?: number): Effect {
+        return super.createKineticShieldEffect(unitId, existingEffectId, strength);
+    }
+
+    public applyImmortalityShield(unit: Unit): Unit {
+        return super.applyImmortalityShield(unit);
+    }
+
+    public isValidMovePath(unit: Unit, path: Position[]): boolean {
+        return super.isValidMovePath(unit, path);
+    }
+
+    public canCompleteMoveStep(unit: Unit, nextPos: Position): boolean {
+        return super.canCompleteMoveStep(unit, nextPos);
+    }
+
+    public processDeliveries(round: number) {
+        super.processDeliveries(round);
+    }
+
+    public checkWinCondition() {
+        super.checkWinCondition();
+    }
+
+    public canOfferTalentToPlayer(playerId: PlayerId, talent: Talent): boolean {
+        return super.canOfferTalentToPlayer(playerId, talent);
+    }
+
+    public updateFogOfWar() {
+        super.updateFogOfWar();
+    }
+
+    public getTurnIncomeAmount(playerId: PlayerId): number {
+        return super.getTurnIncomeAmount(playerId);
+    }
+}
+
+// A flat EMPTY map with no units on it; tests add exactly the units they need.
+export const createTestEngine = (emptyMapConfig: EmptyMapConfig = { players: 2, mode: 'duel' }): TestRulesEngine => {
+    const engine = new TestRulesEngine({ scheduler: new VirtualScheduler() });
+    engine.startGame('EMPTY', false, { x: 10, y: 10 }, emptyMapConfig, 1);
+    engine.settle();
+    return engine;
+};
+
+export const addUnit = (engine: TestRulesEngine, type: UnitType, position: Position, playerId: PlayerId): Unit => {
+    const unit = engine.createUnit(type, position, playerId);
+    engine.getState().units.push(unit);
+    return unit;
+};
+
+export const getUnit = (engine: TestRulesEngine, unitId: string): Unit => {
+    const unit = engine.getState().units.find((candidate) => candidate.id === unitId);
+    if (!unit) throw new Error(`Unit ${unitId} is not on the board.`);
+    return unit;
+};
+
+export const getTalent = (talentId: string): Talent => {
+    const talent = TALENT_POOL.find((candidate) => candidate.id === talentId);
+    if (!talent) throw new Error(`Talent ${talentId} is not in the pool.`);
+    return talent;
+};
+
+let nextShopOrderId = 0;
+
+export const createShopOrder = (type: UnitType, deliveryTurns: number): ShopItem => ({
+    id: `test-order-${nextShopOrderId++}`,
+    type,
+    cost: 100,
+    deliveryTurns
+});
+
+// Square patch of walkable tiles, keyed "x,z" like GameState.terrain.
+export const createFlatTerrain = (width: number, height: number, elevation: number = 0): Record<string, TerrainData> => {
+    const terrain: Record<string, TerrainData> = {};
+    for (let x = 0; x < width; x++) {
+        for (let z = 0; z < height; z++) {
+            terrain[`${x},${z}`] = { type: 'NORMAL', elevation, rotation: 0 };
+        }
+    }
+    return terrain;
+};
@@ -0,0 +1,20 @@
+// Single bundle entry for `npm test`: vite builds this into dist-ssr/tests so the suite can load
+// services/rulesEngine.ts (which relies on import.meta.glob) and node:test runs the result.
+import './pathfinding.test';
+import './movement.test';
+import './combat.test';
+import './deliveries.test';
+import './matchRules.test';
+import './winCondition.test';
+import './talents.test';
+import './visibility.test';
+import './syncDelta.test';
+import './turnTimer.test';
+import './commandValidation.test';
+import './serverSimulation.test';
+import './spectators.test';
+import './logging.test';
+import './commandPayloads.test';
+import './sessions.test';
+import './series.test';
+import './lobbyStore.test';
@@ -0,0 +1,90 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createPlayerSlots } from '../server/players.js';
+import { createFileLobbyStore, isLobbyRecordSupported, restoreLobbyFromRecord, serializeLobby } from '../server/lobbyStore.js';
+
+const createStartedLobby = () => {
+    const playerSlots = createPlayerSlots(['P1', 'P2'], 'host-socket');
+    playerSlots[0].sessionTokenHash = 'ab'.repeat(32);
+    playerSlots[1].connectionState = 'connected';
+    playerSlots[1].socketId = 'guest-socket';
+    return {
+        playerSlots,
+        authorityPlayerId: 'P1',
+        authoritySocketId: null,
+        serverAuthority: true,
+        simulation: { dispose: () => {} },
+        hostAdminEnabled: false,
+        fogOfWarDisabled: false,
+        matchRules: null,
+        spectators: { 'spectator-socket': { perspective: 'P1' } },
+        spectatorDelayMs: 15000,
+        isPublic: true,
+        matchMode: 'duel',
+        createdAt: 100,
+        gameState: { currentTurn: 'P2', turnCount: 4, units: [] },
+        selectedCharacters: { P1: 'c1', P2: 'c2', P3: null, P4: null, NEUTRAL: null },
+        mapId: 'MAP_1',
+        mapData: null,
+        currentTurn: 'P2',
+        turnOrder: ['P1', 'P2'],
+        maxPlayers: 2,
+        started: true,
+        series: { matchNumber: 2, scores: { P1: 1, P2: 0 }, resultRecorded: false, rematchVotes: {}, rotateTurnOrder: true }
+    };
+};
+
+describe('lobby records', () => {
+    it('stores durable match data without sockets or the simulation', () => {
+        const record = serializeLobby(createStartedLobby(), 500);
+
+        assert.equal(isLobbyRecordSupported(record), true);
+        assert.equal(record.savedAt, 500);
+        assert.ok(record.playerSlots.every((slot: { socketId: string | null }) => slot.socketId === null));
+        assert.equal(record.playerSlots[0].sessionTokenHash, 'ab'.repeat(32));
+        assert.ok(!('simulation' in record));
+        assert.ok(!('spectators' in record));
+        assert.deepEqual(record.gameState, { currentTurn: 'P2', turnCount: 4, units: [] });
+    });
+
+    it('restores claimed seats as disconnected so only their token holders get them back', () => {
+        const record = JSON.parse(JSON.stringify(serializeLobby(createStartedLobby(), 500)));
+        const lobby = restoreLobbyFromRecord(record, { serverAuthority: true, normalizeMatchRules: null });
+
+        assert.deepEqual(lobby.playerSlots.map((slot: { connectionState: string }) => slot.connectionState), ['disconnected', 'disconnected']);
+        assert.ok(lobby.playerSlots.every((slot: { disconnectedAt: number }) => slot.disconnectedAt === 500));
+        assert.equal(lobby.playerSlots[0].sessionTokenHash, 'ab'.repeat(32));
+        assert.deepEqual(lobby.spectators, {});
+        assert.equal(lobby.spectatorDelayMs, 15000);
+        assert.equal(lobby.currentTurn, 'P2');
+        assert.equal(lobby.series.matchNumber, 2);
+        assert.equal(lobby.replay, null);
+    });
+
+    it('rejects records from another version or without seats', () => {
+        const record = serializeLobby(createStartedLobby());
+
+        assert.equal(isLobbyRecordSupported({ ...record, version: 0 }), false);
+        assert.equal(isLobbyRecordSupported({ ...record, playerSlots: undefined }), false);
+        assert.equal(isLobbyRecordSupported(null), false);
+    });
+});
+
+describe('createFileLobbyStore', () => {
+    it('saves, loads and removes one file per room', async () => {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'neon-lobbies-'));
+        const store = createFileLobbyStore(directory);
+        const record = serializeLobby(createStartedLobby(), 500);
+
+        await store.save('AB12', record);
+        fs.writeFileSync(path.join(directory, 'BROKEN.json'), '{');
+        const entries = await store.load();
+        assert.deepEqual(entries, [{ roomId: 'AB12', record: JSON.parse(JSON.stringify(record)) }]);
+
+        await store.remove('AB12');
+        assert.deepEqual(fs.readdirSync(directory), ['BROKEN.json']);
+    });
+});
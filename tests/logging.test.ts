@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { buildLogEntry, createLogFileWriter, formatLogValue } from '../server/logging.js';
+
+const createLogDir = () => fs.mkdtempSync(path.join(os.tmpdir(), 'neon-log-'));
+
+const readLines = (file: string) => fs.readFileSync(file, 'utf8').split('\n').filter(Boolean);
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('buildLogEntry', () => {
+    const date = new Date('2026-01-02T03:04:05Z');
+
+    it('splits tags and key=value pairs into fields', () => {
+        const entry = buildLogEntry('warn', '[AUTH][REJECT] room=AB12 actor=P2 action=MOVE reason=NOT_YOUR_TURN bytes=120', date);
+
+        assert.equal(entry.area, 'AUTH');
+        assert.equal(entry.event, 'REJECT');
+        assert.equal(entry.room, 'AB12');
+        assert.equal(entry.player, 'P2');
+        assert.equal(entry.reason, 'NOT_YOUR_TURN');
+        assert.deepEqual(entry.data, { bytes: 120 });
+    });
+
+    it('keeps quoted values whole', () => {
+        const message = `[ROOM][DISCONNECT] room=AB12 reason=${formatLogValue('kicked by admin')} note=${formatLogValue('say "gg" 2')} count=${formatLogValue('3')}`;
+        const entry = buildLogEntry('warn', message, date);
+
+        assert.equal(entry.reason, 'kicked by admin');
+        assert.deepEqual(entry.data, { note: 'say "gg" 2', count: 3 });
+    });
+
+    it('leaves quoted numbers as text', () => {
+        const entry = buildLogEntry('info', `[STORE][SKIP] file=${formatLogValue('12 34')} code="42"`, date);
+        assert.deepEqual(entry.data, { file: '12 34', code: '42' });
+    });
+});
+
+describe('createLogFileWriter', () => {
+    it('rotates once the file would pass maxBytes without losing lines', async () => {
+        const file = path.join(createLogDir(), 'server.log');
+        const writer = createLogFileWriter({ file, maxBytes: 50, maxFiles: 5 });
+        const lines = ['first'.padEnd(20, '.'), 'second'.padEnd(20, '.'), 'third'.padEnd(20, '.')];
+        lines.forEach((line) => writer.write(`${line}\n`));
+        await writer.close();
+
+        assert.deepEqual(readLines(`${file}.1`), lines.slice(0, 2));
+        assert.deepEqual(readLines(file), lines.slice(2));
+        assert.equal(writer.getStatus().droppedLines, 0);
+    });
+
+    it('drops lines while failing and opens the file again after the backoff', async () => {
+        const directory = path.join(createLogDir(), 'missing');
+        const file = path.join(directory, 'server.log');
+        let now = 1000;
+        const errors: string[] = [];
+        const writer = createLogFileWriter({ file, maxBytes: 1024, maxFiles: 1, retryMs: 500, now: () => now, onError: (err: Error) => errors.push(err.message) });
+
+        writer.write('lost\n');
+        await wait(20);
+        assert.equal(errors.length, 1);
+        assert.equal(writer.getStatus().failing, true);
+
+        fs.mkdirSync(directory);
+        writer.write('dropped during backoff\n');
+        assert.equal(writer.getStatus().droppedLines, 1);
+
+        now += 500;
+        writer.write('written\n');
+        await wait(20);
+        await writer.close();
+
+        assert.deepEqual(readLines(file), ['written']);
+        assert.deepEqual(writer.getStatus(), { failing: false, failures: 1, droppedLines: 1, lastError: errors[0] });
+    });
+});
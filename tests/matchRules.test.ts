@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PlayerId } from '../types';
+import { VirtualScheduler } from '../services/rulesEngine';
+import { DEFAULT_MATCH_RULES, MATCH_RULE_LIMITS, normalizeMatchRules, parseDeliveryRounds } from '../utils/matchRules';
+import { createPlayerSlots } from '../server/players.js';
+import { restoreLobbyFromRecord, serializeLobby } from '../server/lobbyStore.js';
+import { getTalent, TestRulesEngine } from './helpers';
+
+describe('normalizeMatchRules', () => {
+    it('falls back to the defaults for missing or malformed values', () => {
+        assert.deepEqual(normalizeMatchRules(null), DEFAULT_MATCH_RULES);
+        assert.deepEqual(normalizeMatchRules({ incomePerTurn: '50', deliveryRounds: 'soon' }), DEFAULT_MATCH_RULES);
+    });
+
+    it('clamps numbers and sorts and deduplicates delivery rounds', () => {
+        const rules = normalizeMatchRules({
+            initialCredits: 99999,
+            turnTimerSeconds: 1,
+            incomePerTurn: 35.6,
+            deliveryRounds: parseDeliveryRounds('30, 5 5,1000')
+        });
+
+        assert.equal(rules.initialCredits, MATCH_RULE_LIMITS.initialCredits.max);
+        assert.equal(rules.turnTimerSeconds, MATCH_RULE_LIMITS.turnTimerSeconds.min);
+        assert.equal(rules.incomePerTurn, 36);
+        assert.deepEqual(rules.deliveryRounds, [5, 30, 200]);
+    });
+});
+
+describe('match rules in lobby records', () => {
+    const createRecord = (matchRules: unknown) => serializeLobby({
+        playerSlots: createPlayerSlots([PlayerId.ONE, PlayerId.TWO], null),
+        authorityPlayerId: PlayerId.ONE,
+        matchRules,
+        matchMode: 'duel',
+        createdAt: 1,
+        mapId: 'MAP_1',
+        currentTurn: PlayerId.ONE,
+        turnOrder: [PlayerId.ONE, PlayerId.TWO],
+        maxPlayers: 2
+    });
+
+    it('normalizes stored rules again when the room is restored', () => {
+        const record = createRecord({ ...DEFAULT_MATCH_RULES, turnTimerSeconds: 5, initialCredits: 99999 });
+        const lobby = restoreLobbyFromRecord(record, { serverAuthority: true, normalizeMatchRules });
+
+        assert.equal(lobby.matchRules.turnTimerSeconds, MATCH_RULE_LIMITS.turnTimerSeconds.min);
+        assert.equal(lobby.matchRules.initialCredits, MATCH_RULE_LIMITS.initialCredits.max);
+    });
+
+    it('plays the default rules when the server runs without the simulation bundle', () => {
+        const record = createRecord({ ...DEFAULT_MATCH_RULES, incomePerTurn: 80 });
+
+        assert.equal(restoreLobbyFromRecord(record, { serverAuthority: false, normalizeMatchRules: null }).matchRules, null);
+        assert.equal(restoreLobbyFromRecord(createRecord(null), { serverAuthority: true, normalizeMatchRules }).matchRules, null);
+    });
+});
+
+describe('startGame with match rules', () => {
+    it('stores the rules and starts from their credits, income and first delivery round', () => {
+        const engine = new TestRulesEngine({ scheduler: new VirtualScheduler() });
+        engine.startGame('EMPTY', false, { x: 10, y: 10 }, { players: 2, mode: 'duel' }, 1, {}, undefined, {
+            ...DEFAULT_MATCH_RULES,
+            initialCredits: 1200,
+            incomePerTurn: 0,
+            deliveryRounds: [6, 12]
+        });
+        engine.settle();
+        const state = engine.getState();
+
+        assert.equal(state.credits[PlayerId.ONE], 1200);
+        assert.equal(state.credits[PlayerId.TWO], 1200);
+        assert.equal(state.nextDeliveryRound, 6);
+        assert.deepEqual(state.matchRules.deliveryRounds, [6, 12]);
+    });
+
+    it('adds the Economist bonus on top of the configured income', () => {
+        const engine = new TestRulesEngine({ scheduler: new VirtualScheduler() });
+        engine.startGame('EMPTY', false, { x: 10, y: 10 }, { players: 2, mode: 'duel' }, 1, {}, undefined, {
+            ...DEFAULT_MATCH_RULES,
+            incomePerTurn: 50
+        });
+        engine.settle();
+        const state = engine.getState();
+        state.playerTalents[PlayerId.ONE] = [getTalent('t30')];
+
+        assert.equal(engine.getTurnIncomeAmount(PlayerId.ONE), 60);
+        assert.equal(engine.getTurnIncomeAmount(PlayerId.TWO), 50);
+    });
+});
@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PlayerId, UnitType } from '../types';
+import { addUnit, createTestEngine, getUnit } from './helpers';
+
+// Raises the two rows above `ledgeZ` on the test map and puts a ramp of the given width at the left edge.
+const buildLedge = (engine: ReturnType<typeof createTestEngine>, rampWidth: number) => {
+    const state = engine.getState();
+    const { originX, originZ, width } = state.mapBounds;
+    const ledgeZ = originZ + 2;
+    for (let x = originX; x < originX + width; x++) {
+        state.terrain[`${x},${originZ}`] = { type: 'PLATFORM', elevation: 1, rotation: 0 };
+        state.terrain[`${x},${originZ + 1}`] = { type: 'PLATFORM', elevation: 1, rotation: 0 };
+    }
+    for (let x = originX; x < originX + rampWidth; x++) {
+        state.terrain[`${x},${ledgeZ}`] = { type: 'RAMP', elevation: 0, rotation: 0 };
+    }
+    state.fogOfWarDisabled = true;
+    return { originX, originZ, ledgeZ };
+};
+
+const selectForMove = (engine: ReturnType<typeof createTestEngine>, unitId: string) => {
+    const state = engine.getState();
+    state.currentTurn = PlayerId.ONE;
+    state.selectedUnitId = unitId;
+};
+
+describe('multi-tile movement over terrain', () => {
+    it('rejects a 2x2 path that climbs a ledge directly', () => {
+        const engine = createTestEngine();
+        const { originX, ledgeZ } = buildLedge(engine, 0);
+        const tank = addUnit(engine, UnitType.HEAVY_TANK, { x: originX + 4, z: ledgeZ }, PlayerId.ONE);
+
+        const climb = [{ x: originX + 4, z: ledgeZ - 1 }];
+        assert.equal(engine.isValidMovePath(tank, climb), false);
+        assert.equal(engine.canCompleteMoveStep(tank, climb[0]), false);
+    });
+
+    it('previews no route up a ramp narrower than the footprint', () => {
+        const engine = createTestEngine();
+        const { originX, originZ, ledgeZ } = buildLedge(engine, 1);
+        const tank = addUnit(engine, UnitType.HEAVY_TANK, { x: originX, z: ledgeZ + 1 }, PlayerId.ONE);
+        selectForMove(engine, tank.id);
+
+        engine.previewMove(originX, originZ);
+        assert.deepEqual(engine.getState().previewPath, []);
+    });
+
+    it('previews and accepts the same path up a ramp wide enough for the footprint', () => {
+        const engine = createTestEngine();
+        const { originX, originZ, ledgeZ } = buildLedge(engine, 2);
+        const tank = addUnit(engine, UnitType.HEAVY_TANK, { x: originX, z: ledgeZ + 1 }, PlayerId.ONE);
+        selectForMove(engine, tank.id);
+
+        engine.previewMove(originX, originZ);
+        const preview = engine.getState().previewPath;
+        assert.deepEqual(preview[preview.length - 1], { x: originX, z: originZ });
+        assert.equal(engine.isValidMovePath(getUnit(engine, tank.id), preview), true);
+
+        engine.confirmMove();
+        engine.settle();
+        assert.deepEqual(getUnit(engine, tank.id).position, { x: originX, z: originZ });
+    });
+});
+
+describe('MOVE command', () => {
+    it('moves the unit without touching the local selection or preview', () => {
+        const engine = createTestEngine();
+        const { originX: x, originZ: z } = engine.getState().mapBounds;
+        const soldier = addUnit(engine, UnitType.SOLDIER, { x, z }, PlayerId.ONE);
+        const selected = addUnit(engine, UnitType.SOLDIER, { x: x + 4, z: z + 4 }, PlayerId.ONE);
+        const state = engine.getState();
+        state.fogOfWarDisabled = true;
+        state.selectedUnitId = selected.id;
+        state.previewPath = [{ x: x + 4, z: z + 5 }];
+
+        const { rejection } = engine.applyCommand({
+            action: 'MOVE',
+            data: { unitId: soldier.id, path: [{ x: x + 1, z }] },
+            actorPlayerId: PlayerId.ONE
+        });
+        engine.settle();
+
+        assert.equal(rejection, null);
+        assert.deepEqual(getUnit(engine, soldier.id).position, { x: x + 1, z });
+        assert.equal(engine.getState().selectedUnitId, selected.id);
+        assert.deepEqual(engine.getState().previewPath, [{ x: x + 4, z: z + 5 }]);
+    });
+
+    it('reports a move onto an occupied tile', () => {
+        const engine = createTestEngine();
+        const { originX: x, originZ: z } = engine.getState().mapBounds;
+        const soldier = addUnit(engine, UnitType.SOLDIER, { x, z }, PlayerId.ONE);
+        addUnit(engine, UnitType.SOLDIER, { x: x + 1, z }, PlayerId.TWO);
+        engine.getState().fogOfWarDisabled = true;
+
+        const { rejection } = engine.applyCommand({
+            action: 'MOVE',
+            data: { unitId: soldier.id, path: [{ x: x + 1, z }] },
+            actorPlayerId: PlayerId.ONE
+        });
+
+        assert.equal(rejection, 'INVALID_PATH');
+        assert.deepEqual(getUnit(engine, soldier.id).position, { x, z });
+    });
+});
@@ -0,0 +1,205 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { findPath } from '../utils/pathfinding';
+import { canTraverseTerrainEdge, canTraverseUnitStep, isUnitFootprintSurfaceValid } from '../utils/terrainTraversal';
+import { createFlatTerrain } from './helpers';
+
+const revealAll = (terrain: Record<string, unknown>) => new Set(Object.keys(terrain));
+
+describe('canTraverseTerrainEdge', () => {
+    it('allows steps between tiles at the same elevation', () => {
+        const terrain = createFlatTerrain(2, 1);
+        assert.equal(canTraverseTerrainEdge({ x: 0, z: 0 }, { x: 1, z: 0 }, terrain), true);
+    });
+
+    it('rejects diagonal, non-adjacent and off-map steps', () => {
+        const terrain = createFlatTerrain(3, 3);
+        assert.equal(canTraverseTerrainEdge({ x: 0, z: 0 }, { x: 1, z: 1 }, terrain), false);
+        assert.equal(canTraverseTerrainEdge({ x: 0, z: 0 }, { x: 2, z: 0 }, terrain), false);
+        assert.equal(canTraverseTerrainEdge({ x: 2, z: 0 }, { x: 3, z: 0 }, terrain), false);
+    });
+
+    it('rejects a direct climb onto a raised tile', () => {
+        const terrain = createFlatTerrain(2, 1);
+        terrain['1,0'] = { type: 'PLATFORM', elevation: 1, rotation: 0 };
+        assert.equal(canTraverseTerrainEdge({ x: 0, z: 0 }, { x: 1, z: 0 }, terrain), false);
+        assert.equal(canTraverseTerrainEdge({ x: 1, z: 0 }, { x: 0, z: 0 }, terrain), false);
+    });
+
+    it('climbs a ramp along its axis in both directions', () => {
+        // z=0 platform (elevation 1), z=1 ramp rising to the north, z=2 ground.
+        const terrain = createFlatTerrain(1, 3);
+        terrain['0,0'] = { type: 'PLATFORM', elevation: 1, rotation: 0 };
+        terrain['0,1'] = { type: 'RAMP', elevation: 0, rotation: 0 };
+
+        assert.equal(canTraverseTerrainEdge({ x: 0, z: 2 }, { x: 0, z: 1 }, terrain), true);
+        assert.equal(canTraverseTerrainEdge({ x: 0, z: 1 }, { x: 0, z: 0 }, terrain), true);
+        assert.equal(canTraverseTerrainEdge({ x: 0, z: 0 }, { x: 0, z: 1 }, terrain), true);
+        assert.equal(canTraverseTerrainEdge({ x: 0, z: 1 }, { x: 0, z: 2 }, terrain), true);
+    });
+
+    it('rejects entering or leaving a ramp through its sides', () => {
+        const terrain = createFlatTerrain(2, 1);
+        terrain['1,0'] = { type: 'RAMP', elevation: 0, rotation: 0 };
+        assert.equal(canTraverseTerrainEdge({ x: 0, z: 0 }, { x: 1, z: 0 }, terrain), false);
+        assert.equal(canTraverseTerrainEdge({ x: 1, z: 0 }, { x: 0, z: 0 }, terrain), false);
+    });
+});
+
+// x 0..3, z 0..5: rows z=0..1 are a raised platform reached by a two-wide ramp at x=1..2, z=2.
+const createRampedTerrain = () => {
+    const terrain = createFlatTerrain(4, 6);
+    for (let x = 0; x < 4; x++) {
+        terrain[`${x},0`] = { type: 'PLATFORM', elevation: 1, rotation: 0 };
+        terrain[`${x},1`] = { type: 'PLATFORM', elevation: 1, rotation: 0 };
+    }
+    terrain['1,2'] = { type: 'RAMP', elevation: 0, rotation: 0 };
+    terrain['2,2'] = { type: 'RAMP', elevation: 0, rotation: 0 };
+    return terrain;
+};
+
+const rampBounds = { originX: 0, originZ: 0, width: 4, height: 6 };
+
+describe('isUnitFootprintSurfaceValid', () => {
+    it('accepts flat ground and rejects a footprint across a ledge', () => {
+        const terrain = createRampedTerrain();
+        assert.equal(isUnitFootprintSurfaceValid({ x: 0, z: 4 }, 2, terrain), true);
+        assert.equal(isUnitFootprintSurfaceValid({ x: 0, z: 0 }, 2, terrain), true);
+        assert.equal(isUnitFootprintSurfaceValid({ x: 0, z: 1 }, 2, terrain), false);
+    });
+
+    it('accepts a footprint resting on parallel ramps and the ground they lead from', () => {
+        const terrain = createRampedTerrain();
+        assert.equal(isUnitFootprintSurfaceValid({ x: 1, z: 2 }, 2, terrain), true);
+        assert.equal(isUnitFootprintSurfaceValid({ x: 1, z: 1 }, 2, terrain), true);
+    });
+
+    it('rejects a footprint that half-sits on a ramp side', () => {
+        const terrain = createRampedTerrain();
+        assert.equal(isUnitFootprintSurfaceValid({ x: 0, z: 2 }, 2, terrain), false);
+    });
+
+    it('rejects a footprint over a missing tile', () => {
+        const terrain = createFlatTerrain(2, 2);
+        delete terrain['1,1'];
+        assert.equal(isUnitFootprintSurfaceValid({ x: 0, z: 0 }, 2, terrain), false);
+    });
+});
+
+describe('canTraverseUnitStep', () => {
+    it('matches canTraverseTerrainEdge for single-tile units', () => {
+        const terrain = createRampedTerrain();
+        const steps: Array<[{ x: number; z: number }, { x: number; z: number }]> = [
+            [{ x: 1, z: 3 }, { x: 1, z: 2 }],
+            [{ x: 1, z: 2 }, { x: 1, z: 1 }],
+            [{ x: 0, z: 2 }, { x: 0, z: 1 }],
+            [{ x: 0, z: 2 }, { x: 1, z: 2 }]
+        ];
+        steps.forEach(([from, to]) => {
+            assert.equal(canTraverseUnitStep(from, to, 1, terrain), canTraverseTerrainEdge(from, to, terrain));
+        });
+    });
+
+    it('lets a 2x2 unit climb a ramp as wide as its footprint', () => {
+        const terrain = createRampedTerrain();
+        assert.equal(canTraverseUnitStep({ x: 1, z: 3 }, { x: 1, z: 2 }, 2, terrain), true);
+        assert.equal(canTraverseUnitStep({ x: 1, z: 2 }, { x: 1, z: 1 }, 2, terrain), true);
+        assert.equal(canTraverseUnitStep({ x: 1, z: 1 }, { x: 1, z: 0 }, 2, terrain), true);
+    });
+
+    it('stops a 2x2 unit whose leading edge only partly meets the ramp', () => {
+        const terrain = createRampedTerrain();
+        assert.equal(canTraverseUnitStep({ x: 0, z: 3 }, { x: 0, z: 2 }, 2, terrain), false);
+        assert.equal(canTraverseUnitStep({ x: 2, z: 3 }, { x: 2, z: 2 }, 2, terrain), false);
+    });
+
+    it('rejects non-adjacent anchors', () => {
+        const terrain = createFlatTerrain(4, 4);
+        assert.equal(canTraverseUnitStep({ x: 0, z: 0 }, { x: 1, z: 1 }, 2, terrain), false);
+    });
+});
+
+describe('findPath', () => {
+    const bounds = { originX: 0, originZ: 0, width: 5, height: 5 };
+
+    it('returns the shortest route without the start tile', () => {
+        const terrain = createFlatTerrain(5, 5);
+        const path = findPath({ x: 0, z: 0 }, { x: 3, z: 0 }, new Set(), revealAll(terrain), terrain, 1, bounds);
+        assert.deepEqual(path, [{ x: 1, z: 0 }, { x: 2, z: 0 }, { x: 3, z: 0 }]);
+    });
+
+    it('routes around obstacles', () => {
+        const terrain = createFlatTerrain(5, 5);
+        const obstacles = new Set(['1,0', '1,1', '1,2']);
+        const path = findPath({ x: 0, z: 0 }, { x: 2, z: 0 }, obstacles, revealAll(terrain), terrain, 1, bounds);
+
+        assert.equal(path.length, 8);
+        assert.deepEqual(path[path.length - 1], { x: 2, z: 0 });
+        assert.ok(path.every((step) => !obstacles.has(`${step.x},${step.z}`)));
+    });
+
+    it('returns an empty path when the target is walled off', () => {
+        const terrain = createFlatTerrain(5, 5);
+        const obstacles = new Set(['2,0', '2,1', '2,2', '2,3', '2,4']);
+        assert.deepEqual(findPath({ x: 0, z: 0 }, { x: 4, z: 0 }, obstacles, revealAll(terrain), terrain, 1, bounds), []);
+    });
+
+    it('does not walk through unrevealed or missing tiles', () => {
+        const terrain = createFlatTerrain(3, 1);
+        const revealed = new Set(['0,0', '2,0']);
+        const narrowBounds = { originX: 0, originZ: 0, width: 3, height: 1 };
+        assert.deepEqual(findPath({ x: 0, z: 0 }, { x: 2, z: 0 }, new Set(), revealed, terrain, 1, narrowBounds), []);
+
+        delete terrain['1,0'];
+        assert.deepEqual(findPath({ x: 0, z: 0 }, { x: 2, z: 0 }, new Set(), revealAll(terrain), terrain, 1, narrowBounds), []);
+    });
+
+    it('takes the ramp instead of climbing a ledge', () => {
+        // Row z=0 is raised; the only way up is the ramp at x=2, entered from its low (south) end.
+        const terrain = createFlatTerrain(5, 3);
+        for (let x = 0; x < 5; x++) {
+            terrain[`${x},0`] = { type: 'PLATFORM', elevation: 1, rotation: 0 };
+        }
+        terrain['2,1'] = { type: 'RAMP', elevation: 0, rotation: 0 };
+
+        const path = findPath({ x: 0, z: 1 }, { x: 0, z: 0 }, new Set(), revealAll(terrain), terrain, 1, { ...bounds, height: 3 });
+        const rampIndex = path.findIndex((step) => step.x === 2 && step.z === 1);
+        assert.ok(rampIndex > 0, 'path should enter the ramp');
+        assert.deepEqual(path[rampIndex - 1], { x: 2, z: 2 });
+        assert.deepEqual(path[rampIndex + 1], { x: 2, z: 0 });
+        assert.deepEqual(path[path.length - 1], { x: 0, z: 0 });
+    });
+
+    it('routes a 2x2 unit up the ramp rather than over the ledge', () => {
+        const terrain = createRampedTerrain();
+        const path = findPath({ x: 0, z: 4 }, { x: 0, z: 0 }, new Set(), revealAll(terrain), terrain, 2, rampBounds);
+
+        assert.ok(path.length > 0, 'a route up the ramp exists');
+        let current = { x: 0, z: 4 };
+        path.forEach((step) => {
+            assert.equal(canTraverseUnitStep(current, step, 2, terrain), true, `illegal step ${current.x},${current.z} -> ${step.x},${step.z}`);
+            current = step;
+        });
+        assert.ok(path.some((step) => step.x === 1 && step.z === 2));
+    });
+
+    it('finds no route for a 2x2 unit when the ramp is narrower than its footprint', () => {
+        const terrain = createRampedTerrain();
+        terrain['2,2'] = { type: 'NORMAL', elevation: 0, rotation: 0 };
+
+        assert.deepEqual(findPath({ x: 0, z: 4 }, { x: 0, z: 0 }, new Set(), revealAll(terrain), terrain, 2, rampBounds), []);
+        assert.ok(findPath({ x: 0, z: 4 }, { x: 0, z: 0 }, new Set(), revealAll(terrain), terrain, 1, rampBounds).length > 0);
+    });
+
+    it('keeps a multi-tile footprint clear of obstacles and the map edge', () => {
+        const terrain = createFlatTerrain(5, 5);
+        const path = findPath({ x: 0, z: 0 }, { x: 3, z: 3 }, new Set(['2,2']), revealAll(terrain), terrain, 2, bounds);
+
+        assert.deepEqual(path[path.length - 1], { x: 3, z: 3 });
+        path.forEach((step) => {
+            const footprint = [[0, 0], [1, 0], [0, 1], [1, 1]].map(([dx, dz]) => `${step.x + dx},${step.z + dz}`);
+            assert.ok(!footprint.includes('2,2'), `footprint at ${step.x},${step.z} overlaps the obstacle`);
+        });
+        assert.deepEqual(findPath({ x: 0, z: 0 }, { x: 4, z: 0 }, new Set(), revealAll(terrain), terrain, 2, bounds), []);
+    });
+});
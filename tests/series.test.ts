@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createPlayerSlots } from '../server/players.js';
+import { buildRematchStatePayload, getRematchTurnOrder, isRematchAgreed, recordSeriesResult } from '../server/series.js';
+
+const createFinishedLobby = (winner: string[] | null = ['P1']) => {
+    const playerSlots = createPlayerSlots(['P1', 'P2'], 'host-socket');
+    playerSlots[1].connectionState = 'connected';
+    playerSlots[1].socketId = 'guest-socket';
+    return {
+        started: true,
+        turnOrder: ['P1', 'P2'],
+        playerSlots,
+        gameState: { winner },
+        series: null as any
+    };
+};
+
+describe('recordSeriesResult', () => {
+    it('scores the winners once per match', () => {
+        const lobby = createFinishedLobby(['P2']);
+
+        assert.equal(recordSeriesResult(lobby), true);
+        assert.equal(recordSeriesResult(lobby), false);
+        assert.deepEqual(lobby.series.scores, { P1: 0, P2: 1 });
+        assert.equal(lobby.series.matchNumber, 1);
+    });
+
+    it('ignores a match that is still running', () => {
+        const lobby = createFinishedLobby(null);
+
+        assert.equal(recordSeriesResult(lobby), false);
+        assert.equal(lobby.series, null);
+    });
+
+    it('scores the next match once the rematch resets the flag', () => {
+        const lobby = createFinishedLobby(['P1']);
+        recordSeriesResult(lobby);
+        lobby.series.resultRecorded = false;
+        lobby.series.matchNumber += 1;
+
+        assert.equal(recordSeriesResult(lobby), true);
+        assert.deepEqual(lobby.series.scores, { P1: 2, P2: 0 });
+    });
+});
+
+describe('rematch votes', () => {
+    it('needs every connected player to accept', () => {
+        const lobby = createFinishedLobby();
+        recordSeriesResult(lobby);
+        lobby.series.rematchVotes.P1 = true;
+        assert.equal(isRematchAgreed(lobby), false);
+
+        lobby.series.rematchVotes.P2 = true;
+        assert.equal(isRematchAgreed(lobby), true);
+
+        lobby.playerSlots[1].connectionState = 'disconnected';
+        assert.equal(isRematchAgreed(lobby), false);
+    });
+
+    it('rotates the first player unless the host turned it off', () => {
+        const lobby = createFinishedLobby();
+        recordSeriesResult(lobby);
+        assert.deepEqual(getRematchTurnOrder(lobby), ['P2', 'P1']);
+        assert.equal(buildRematchStatePayload('AB12', lobby).nextFirstPlayerId, 'P2');
+
+        lobby.series.rotateTurnOrder = false;
+        assert.deepEqual(getRematchTurnOrder(lobby), ['P1', 'P2']);
+    });
+
+    it('lists who has voted and who is still deciding', () => {
+        const lobby = createFinishedLobby();
+        recordSeriesResult(lobby);
+        lobby.series.rematchVotes.P2 = true;
+
+        const payload = buildRematchStatePayload('AB12', lobby);
+        assert.deepEqual(payload.acceptedPlayerIds, ['P2']);
+        assert.deepEqual(payload.waitingPlayerIds, ['P1']);
+        assert.deepEqual(payload.scores, { P1: 1, P2: 0 });
+    });
+});
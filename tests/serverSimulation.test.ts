@@ -0,0 +1,29 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCancellableScheduler } from '../services/serverSimulation';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('createCancellableScheduler', () => {
+    it('runs callbacks that are still scheduled', async () => {
+        const scheduler = createCancellableScheduler();
+        const ran: string[] = [];
+        scheduler.schedule(() => ran.push('kept'), 0);
+        const cancel = scheduler.schedule(() => ran.push('cancelled'), 0);
+        cancel();
+
+        await wait(10);
+        assert.deepEqual(ran, ['kept']);
+    });
+
+    it('drops every pending callback on cancelAll', async () => {
+        const scheduler = createCancellableScheduler();
+        const ran: string[] = [];
+        scheduler.schedule(() => ran.push('sync'), 0);
+        scheduler.schedule(() => ran.push('cleanup'), 5);
+        scheduler.cancelAll();
+
+        await wait(20);
+        assert.deepEqual(ran, []);
+    });
+});
@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createPlayerSlots } from '../server/players.js';
+import { isSessionTokenValid, issueSessionToken, normalizeJoinLobbyPayload, resolveJoinSlot } from '../server/sessions.js';
+
+const createLobby = (started = false) => ({ started, playerSlots: createPlayerSlots(['P1', 'P2', 'P3'], 'host-socket') });
+
+describe('session tokens', () => {
+    it('stores only the digest and accepts the token in either case', () => {
+        const [slot] = createLobby().playerSlots;
+        const token = issueSessionToken(slot);
+
+        assert.notEqual(slot.sessionTokenHash, token);
+        assert.equal(isSessionTokenValid(slot, token), true);
+        assert.equal(isSessionTokenValid(slot, token.toLowerCase()), true);
+        assert.equal(isSessionTokenValid(slot, `${token.slice(0, -1)}${token.endsWith('A') ? 'B' : 'A'}`), false);
+        assert.equal(isSessionTokenValid(slot, token.slice(1)), false);
+    });
+
+    it('invalidates the old token when a new one is issued', () => {
+        const [slot] = createLobby().playerSlots;
+        const oldToken = issueSessionToken(slot);
+        const newToken = issueSessionToken(slot);
+
+        assert.equal(isSessionTokenValid(slot, oldToken), false);
+        assert.equal(isSessionTokenValid(slot, newToken), true);
+    });
+});
+
+describe('resolveJoinSlot', () => {
+    it('gives a disconnected seat only to the holder of its token', () => {
+        const lobby = createLobby(true);
+        const seat = lobby.playerSlots[1];
+        const token = issueSessionToken(seat);
+        seat.connectionState = 'disconnected';
+
+        assert.deepEqual(resolveJoinSlot(lobby, 'P2', null), { reason: 'INVALID_SESSION_TOKEN' });
+        assert.deepEqual(resolveJoinSlot(lobby, 'P2', token), { slot: seat });
+        assert.deepEqual(resolveJoinSlot(lobby, null, token), { slot: seat });
+    });
+
+    it('hands out open seats before the match starts but not after', () => {
+        const lobby = createLobby();
+        assert.equal(resolveJoinSlot(lobby, null, null).slot, lobby.playerSlots[1]);
+        assert.equal(resolveJoinSlot(lobby, 'P3', null).slot, lobby.playerSlots[2]);
+
+        lobby.started = true;
+        assert.deepEqual(resolveJoinSlot(lobby, null, null), { reason: 'REJOIN_SLOT_UNAVAILABLE' });
+    });
+
+    it('reports a full lobby', () => {
+        const lobby = createLobby();
+        lobby.playerSlots.forEach((slot) => {
+            slot.connectionState = 'connected';
+        });
+        assert.deepEqual(resolveJoinSlot(lobby, null, null), { reason: 'LOBBY_FULL' });
+    });
+});
+
+describe('normalizeJoinLobbyPayload', () => {
+    it('accepts a bare room code and drops fields of the wrong type', () => {
+        assert.deepEqual(normalizeJoinLobbyPayload('AB12'), { roomId: 'AB12', preferredPlayerId: null, sessionToken: null, restoreSession: false });
+        assert.deepEqual(
+            normalizeJoinLobbyPayload({ roomId: 'AB12', preferredPlayerId: 2, sessionToken: 'T', restoreSession: 1 }),
+            { roomId: 'AB12', preferredPlayerId: null, sessionToken: 'T', restoreSession: true }
+        );
+    });
+});
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PlayerId, UnitType } from '../types';
+import { omitRandomState, redactSyncStateForPlayer } from '../services/syncRedaction';
+import {
+    MIN_FULL_VISION_DELAY_MS,
+    SPECTATOR_FULL_VISION,
+    buildSpectatorView,
+    getDefaultSpectatorPerspective,
+    getSpectatorPerspectiveRejection
+} from '../server/spectators.js';
+import { addUnit, createTestEngine } from './helpers';
+
+const createLobby = (overrides: { fogOfWarDisabled?: boolean; spectatorDelayMs?: number } = {}) => ({
+    turnOrder: [PlayerId.ONE, PlayerId.TWO],
+    fogOfWarDisabled: false,
+    spectatorDelayMs: 0,
+    ...overrides
+});
+
+describe('spectator perspectives', () => {
+    it('refuses full vision in a fogged room without enough delay', () => {
+        assert.equal(getSpectatorPerspectiveRejection(createLobby(), SPECTATOR_FULL_VISION), 'FULL_VISION_NEEDS_DELAY');
+        assert.equal(
+            getSpectatorPerspectiveRejection(createLobby({ spectatorDelayMs: MIN_FULL_VISION_DELAY_MS - 1 }), SPECTATOR_FULL_VISION),
+            'FULL_VISION_NEEDS_DELAY'
+        );
+        assert.equal(getSpectatorPerspectiveRejection(createLobby({ spectatorDelayMs: MIN_FULL_VISION_DELAY_MS }), SPECTATOR_FULL_VISION), null);
+        assert.equal(getSpectatorPerspectiveRejection(createLobby({ fogOfWarDisabled: true }), SPECTATOR_FULL_VISION), null);
+    });
+
+    it('only accepts seats that are in the match', () => {
+        assert.equal(getSpectatorPerspectiveRejection(createLobby(), PlayerId.TWO), null);
+        assert.equal(getSpectatorPerspectiveRejection(createLobby(), PlayerId.THREE), 'UNKNOWN_PERSPECTIVE');
+    });
+
+    it('defaults to the first seat when full vision is not allowed', () => {
+        assert.equal(getDefaultSpectatorPerspective(createLobby()), PlayerId.ONE);
+        assert.equal(getDefaultSpectatorPerspective(createLobby({ fogOfWarDisabled: true })), SPECTATOR_FULL_VISION);
+    });
+
+    it('never shows a spectator of a fogged, undelayed room the units its seat cannot see', () => {
+        const engine = createTestEngine();
+        Object.values(engine.getState().terrain).forEach((tile) => {
+            delete tile.landingZone;
+        });
+        const { originX, originZ } = engine.getState().mapBounds;
+        const own = addUnit(engine, UnitType.SOLDIER, { x: originX, z: originZ }, PlayerId.ONE);
+        const hidden = addUnit(engine, UnitType.SOLDIER, { x: originX + 8, z: originZ + 8 }, PlayerId.TWO);
+        const snapshot = engine.getReplicatedState();
+        const lobby = createLobby();
+
+        const perspectives = [getDefaultSpectatorPerspective(lobby), SPECTATOR_FULL_VISION, ...lobby.turnOrder]
+            .filter((perspective) => getSpectatorPerspectiveRejection(lobby, perspective) === null);
+        assert.ok(!perspectives.includes(SPECTATOR_FULL_VISION));
+
+        perspectives.forEach((perspective) => {
+            const view = buildSpectatorView(snapshot, perspective, { redactSyncStateForPlayer, omitRandomState });
+            const seatView = redactSyncStateForPlayer(snapshot, perspective);
+            assert.deepEqual(view.units.map((unit) => unit.id).sort(), seatView.units.map((unit) => unit.id).sort());
+        });
+        const playerOneView = buildSpectatorView(snapshot, PlayerId.ONE, { redactSyncStateForPlayer, omitRandomState });
+        assert.deepEqual(playerOneView.units.map((unit) => unit.id), [own.id]);
+        assert.ok(!playerOneView.units.some((unit) => unit.id === hidden.id));
+    });
+});
@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PlayerId, UnitType } from '../types';
+import { applySyncDelta, createSyncDelta, isSyncDeltaEmpty } from '../services/syncDelta';
+import { addUnit, createTestEngine } from './helpers';
+
+// What a client receives: a detached copy, as the live snapshot shares nested objects (stats, effects) with the engine.
+const sendSnapshot = (engine: ReturnType<typeof createTestEngine>) => structuredClone(engine.getReplicatedState());
+
+const snapshotWithUnits = () => {
+    const engine = createTestEngine();
+    const { originX: x, originZ: z } = engine.getState().mapBounds;
+    const soldier = addUnit(engine, UnitType.SOLDIER, { x, z }, PlayerId.ONE);
+    const heavy = addUnit(engine, UnitType.HEAVY, { x: x + 2, z }, PlayerId.TWO);
+    return { engine, soldier, heavy };
+};
+
+describe('createSyncDelta', () => {
+    it('is empty when nothing changed', () => {
+        const { engine } = snapshotWithUnits();
+        const delta = createSyncDelta(sendSnapshot(engine), sendSnapshot(engine), 1, 2);
+        assert.equal(isSyncDeltaEmpty(delta), true);
+    });
+
+    it('carries only the units and fields that changed', () => {
+        const { engine, soldier } = snapshotWithUnits();
+        const before = sendSnapshot(engine);
+        soldier.stats.hp -= 10;
+        engine.getState().credits[PlayerId.ONE] += 50;
+        const after = sendSnapshot(engine);
+
+        const delta = createSyncDelta(before, after, 4, 5);
+        assert.equal(delta.seq, 5);
+        assert.equal(delta.baseSeq, 4);
+        assert.deepEqual(Object.keys(delta.fields), ['credits']);
+        assert.deepEqual(delta.units?.upserted.map((unit) => unit.id), [soldier.id]);
+        assert.deepEqual(delta.units?.removedIds, []);
+        assert.equal(delta.collectibles, undefined);
+    });
+
+    it('treats fields left out of the next snapshot as unchanged', () => {
+        const { engine } = snapshotWithUnits();
+        const full = sendSnapshot(engine);
+        const { terrain, ...withoutTerrain } = sendSnapshot(engine);
+
+        const delta = createSyncDelta(full, withoutTerrain, 1, 2);
+        assert.equal(isSyncDeltaEmpty(delta), true);
+        assert.deepEqual(applySyncDelta(full, delta).terrain, terrain);
+    });
+});
+
+describe('applySyncDelta', () => {
+    it('rebuilds the next snapshot from the previous one', () => {
+        const { engine, soldier, heavy } = snapshotWithUnits();
+        const before = sendSnapshot(engine);
+
+        soldier.position = { ...soldier.position, z: soldier.position.z + 1 };
+        engine.getState().units = engine.getState().units.filter((unit) => unit.id !== heavy.id);
+        addUnit(engine, UnitType.SOLDIER, { x: heavy.position.x, z: heavy.position.z + 3 }, PlayerId.TWO);
+        engine.getState().roundNumber += 1;
+        const after = sendSnapshot(engine);
+
+        const delta = createSyncDelta(before, after, 1, 2);
+        assert.deepEqual(delta.units?.removedIds, [heavy.id]);
+        assert.deepEqual(applySyncDelta(before, delta), after);
+    });
+
+    it('restores the unit order when it changed', () => {
+        const { engine } = snapshotWithUnits();
+        const before = sendSnapshot(engine);
+        engine.getState().units.reverse();
+        const after = sendSnapshot(engine);
+
+        const delta = createSyncDelta(before, after, 1, 2);
+        assert.deepEqual(delta.units?.upserted, []);
+        assert.deepEqual(applySyncDelta(before, delta).units, after.units);
+    });
+
+    it('leaves the base snapshot untouched', () => {
+        const { engine, soldier } = snapshotWithUnits();
+        const before = sendSnapshot(engine);
+        const beforeJson = JSON.stringify(before);
+        soldier.stats.hp = 1;
+
+        applySyncDelta(before, createSyncDelta(before, sendSnapshot(engine), 1, 2));
+        assert.equal(JSON.stringify(before), beforeJson);
+    });
+});
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PlayerId, UnitType } from '../types';
+import { addUnit, createTestEngine, getTalent } from './helpers';
+
+const grantTalents = (engine: ReturnType<typeof createTestEngine>, playerId: PlayerId, talentIds: string[]) => {
+    const state = engine.getState();
+    state.playerTalents[playerId] = [...state.playerTalents[playerId], ...talentIds.map(getTalent)];
+};
+
+describe('canOfferTalentToPlayer', () => {
+    it('offers a talent with no prerequisites', () => {
+        const engine = createTestEngine();
+        assert.equal(engine.canOfferTalentToPlayer(PlayerId.ONE, getTalent('t8')), true);
+    });
+
+    it('holds back an upgrade until its prerequisite is owned', () => {
+        const engine = createTestEngine();
+        const upgrade = getTalent('t16');
+        assert.equal(engine.canOfferTalentToPlayer(PlayerId.ONE, upgrade), false);
+
+        grantTalents(engine, PlayerId.ONE, ['t8']);
+        assert.equal(engine.canOfferTalentToPlayer(PlayerId.ONE, upgrade), true);
+    });
+
+    it('checks prerequisites per player', () => {
+        const engine = createTestEngine();
+        grantTalents(engine, PlayerId.ONE, ['t8']);
+        assert.equal(engine.canOfferTalentToPlayer(PlayerId.TWO, getTalent('t16')), false);
+    });
+
+    it('never offers a single-pick talent twice', () => {
+        const engine = createTestEngine();
+        grantTalents(engine, PlayerId.ONE, ['t8']);
+        assert.equal(engine.canOfferTalentToPlayer(PlayerId.ONE, getTalent('t8')), false);
+    });
+
+    it('keeps offering repeatable talents', () => {
+        const engine = createTestEngine();
+        grantTalents(engine, PlayerId.ONE, ['t1', 't1', 't1']);
+        assert.equal(engine.canOfferTalentToPlayer(PlayerId.ONE, getTalent('t1')), true);
+    });
+
+    it('only offers Ritual while the Arc Portal can pay its HP cost', () => {
+        const engine = createTestEngine();
+        const ritual = getTalent('t15');
+        assert.equal(engine.canOfferTalentToPlayer(PlayerId.ONE, ritual), false);
+
+        const portal = addUnit(engine, UnitType.ARC_PORTAL, { x: 0, z: 0 }, PlayerId.ONE);
+        assert.equal(engine.canOfferTalentToPlayer(PlayerId.ONE, ritual), true);
+
+        portal.stats.hp = 1500;
+        assert.equal(engine.canOfferTalentToPlayer(PlayerId.ONE, ritual), false);
+
+        portal.stats.hp = 1501;
+        assert.equal(engine.canOfferTalentToPlayer(PlayerId.ONE, ritual), true);
+    });
+
+    it('ignores a dying Arc Portal', () => {
+        const engine = createTestEngine();
+        const portal = addUnit(engine, UnitType.ARC_PORTAL, { x: 0, z: 0 }, PlayerId.ONE);
+        portal.stats.hp = 3000;
+        portal.status.isDying = true;
+        assert.equal(engine.canOfferTalentToPlayer(PlayerId.ONE, getTalent('t15')), false);
+    });
+});
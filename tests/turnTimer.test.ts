@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PlayerId, UnitType } from '../types';
+import { TURN_TIMER_SECONDS } from '../constants';
+import { addUnit, createTestEngine } from './helpers';
+
+const engineWithPortals = () => {
+    const engine = createTestEngine();
+    const { originX: x, originZ: z } = engine.getState().mapBounds;
+    const portal = addUnit(engine, UnitType.ARC_PORTAL, { x, z }, PlayerId.ONE);
+    addUnit(engine, UnitType.ARC_PORTAL, { x: x + 6, z: z + 6 }, PlayerId.TWO);
+    return { engine, portal };
+};
+
+describe('turn timer', () => {
+    it('accrues overtime from the local turn start in solo play', () => {
+        const { engine } = engineWithPortals();
+        engine.getState().turnStartedAt = Date.now() - ((TURN_TIMER_SECONDS + 30) * 1000);
+        engine.tick();
+        assert.equal(engine.getState().turnOvertimeDamageApplied, 30);
+    });
+
+    it('leaves multiplayer deadlines to the server', () => {
+        const { engine } = engineWithPortals();
+        engine.getState().isMultiplayer = true;
+        engine.getState().turnStartedAt = Date.now() - ((TURN_TIMER_SECONDS + 30) * 1000);
+        engine.tick();
+        assert.equal(engine.getState().turnOvertimeDamageApplied, 0);
+    });
+
+    it('charges the overtime a SKIP_TURN carries to the main of the player whose turn ends', () => {
+        const { engine, portal } = engineWithPortals();
+        const hpBefore = portal.stats.hp;
+
+        engine.applyCommand({ action: 'SKIP_TURN', data: { overtimeDamage: 7 } });
+        engine.settle();
+
+        const state = engine.getState();
+        assert.equal(state.units.find((unit) => unit.id === portal.id)?.stats.hp, hpBefore - 7);
+        assert.equal(state.currentTurn, PlayerId.TWO);
+        assert.equal(state.turnOvertimeDamageApplied, 0);
+    });
+});
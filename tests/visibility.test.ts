@@ -0,0 +1,202 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AppStatus, EmptyMapConfig, PlayerId, UnitType } from '../types';
+import { redactCueForViewer, redactSyncStateForPlayer } from '../services/syncRedaction';
+import { arePlayersAlliedInMode, collectRevealedTiles } from '../utils/fogOfWar';
+import { addUnit, createTestEngine, getTalent } from './helpers';
+
+// Landing zones are stripped so that only the units placed by each test give vision.
+const createUnitVisionEngine = (config: EmptyMapConfig = { players: 2, mode: 'duel' }) => {
+    const engine = createTestEngine(config);
+    Object.values(engine.getState().terrain).forEach((tile) => {
+        delete tile.landingZone;
+    });
+    return engine;
+};
+
+// Board coordinates relative to the map origin; EMPTY maps are centred on the full board.
+const at = (engine: ReturnType<typeof createTestEngine>, dx: number, dz: number) => {
+    const { originX, originZ } = engine.getState().mapBounds;
+    return { x: originX + dx, z: originZ + dz };
+};
+
+const tileKey = (position: { x: number; z: number }) => `${position.x},${position.z}`;
+
+const unitIds = (units: Array<{ id: string }>) => units.map((unit) => unit.id).sort();
+
+describe('arePlayersAlliedInMode', () => {
+    it('pairs both teams in team_2v2', () => {
+        assert.equal(arePlayersAlliedInMode('team_2v2', PlayerId.ONE, PlayerId.TWO), true);
+        assert.equal(arePlayersAlliedInMode('team_2v2', PlayerId.THREE, PlayerId.FOUR), true);
+        assert.equal(arePlayersAlliedInMode('team_2v2', PlayerId.TWO, PlayerId.THREE), false);
+    });
+
+    it('never allies anyone with neutral units or in free-for-all modes', () => {
+        assert.equal(arePlayersAlliedInMode('team_2v1', PlayerId.ONE, PlayerId.NEUTRAL), false);
+        assert.equal(arePlayersAlliedInMode('ffa', PlayerId.ONE, PlayerId.TWO), false);
+    });
+});
+
+describe('collectRevealedTiles', () => {
+    it('reveals the radius around a unit footprint and clips it to the map', () => {
+        const engine = createUnitVisionEngine();
+        addUnit(engine, UnitType.SOLDIER, at(engine, 0, 0), PlayerId.ONE);
+
+        const revealed = collectRevealedTiles(PlayerId.ONE, engine.getState());
+        assert.equal(revealed.size, 9);
+        assert.ok(revealed.has(tileKey(at(engine, 2, 2))));
+        assert.ok(!revealed.has(tileKey(at(engine, 3, 0))));
+    });
+
+    it('shares vision with allies but not with opponents', () => {
+        const engine = createUnitVisionEngine({ players: 4, mode: 'team_2v2' });
+        addUnit(engine, UnitType.SOLDIER, at(engine, 8, 8), PlayerId.TWO);
+        addUnit(engine, UnitType.SOLDIER, at(engine, 0, 8), PlayerId.THREE);
+
+        assert.ok(collectRevealedTiles(PlayerId.ONE, engine.getState()).has(tileKey(at(engine, 8, 8))));
+        assert.ok(!collectRevealedTiles(PlayerId.ONE, engine.getState()).has(tileKey(at(engine, 0, 8))));
+        assert.ok(collectRevealedTiles(PlayerId.FOUR, engine.getState()).has(tileKey(at(engine, 0, 8))));
+    });
+});
+
+describe('redactSyncStateForPlayer', () => {
+    it('drops enemy units outside the viewer\'s vision', () => {
+        const engine = createUnitVisionEngine();
+        const own = addUnit(engine, UnitType.SOLDIER, at(engine, 0, 0), PlayerId.ONE);
+        const spotted = addUnit(engine, UnitType.SOLDIER, at(engine, 2, 1), PlayerId.TWO);
+        addUnit(engine, UnitType.SOLDIER, at(engine, 8, 8), PlayerId.TWO);
+        addUnit(engine, UnitType.TOWER, at(engine, 6, 0), PlayerId.NEUTRAL);
+
+        const view = redactSyncStateForPlayer(engine.getReplicatedState(), PlayerId.ONE);
+        assert.deepEqual(unitIds(view.units), unitIds([own, spotted]));
+    });
+
+    it('keeps a multi-tile unit once any tile of its footprint is revealed', () => {
+        const engine = createUnitVisionEngine();
+        addUnit(engine, UnitType.SOLDIER, at(engine, 0, 0), PlayerId.ONE);
+        const portal = addUnit(engine, UnitType.ARC_PORTAL, at(engine, 2, 2), PlayerId.TWO);
+        assert.ok(portal.stats.size > 1);
+
+        const view = redactSyncStateForPlayer(engine.getReplicatedState(), PlayerId.ONE);
+        assert.ok(view.units.some((unit) => unit.id === portal.id));
+    });
+
+    it('only sends the viewer their own deck, shop stock and orders', () => {
+        const engine = createUnitVisionEngine({ players: 4, mode: 'team_2v2' });
+        const snapshot = engine.getReplicatedState();
+        assert.ok(snapshot.decks[PlayerId.TWO].length > 0);
+
+        const view = redactSyncStateForPlayer(snapshot, PlayerId.ONE);
+        assert.deepEqual(view.decks[PlayerId.ONE], snapshot.decks[PlayerId.ONE]);
+        assert.deepEqual(view.shopStock[PlayerId.ONE], snapshot.shopStock[PlayerId.ONE]);
+        [PlayerId.TWO, PlayerId.THREE, PlayerId.FOUR].forEach((playerId) => {
+            assert.deepEqual(view.decks[playerId], []);
+            assert.deepEqual(view.shopStock[playerId], []);
+            assert.deepEqual(view.pendingOrders[playerId], []);
+        });
+    });
+
+    it('uses the terrain kept by the caller when the snapshot omits it', () => {
+        const engine = createUnitVisionEngine();
+        addUnit(engine, UnitType.SOLDIER, at(engine, 0, 0), PlayerId.ONE);
+        const spotted = addUnit(engine, UnitType.SOLDIER, at(engine, 1, 1), PlayerId.TWO);
+        const { terrain, ...delta } = engine.getReplicatedState();
+
+        assert.equal(redactSyncStateForPlayer(delta, PlayerId.ONE).units.some((unit) => unit.id === spotted.id), false);
+        assert.equal(redactSyncStateForPlayer(delta, PlayerId.ONE, terrain).units.some((unit) => unit.id === spotted.id), true);
+    });
+
+    it('strips the PRNG state and keeps talent offers for the drafting player', () => {
+        const engine = createUnitVisionEngine();
+        const state = engine.getState();
+        state.appStatus = AppStatus.TALENT_SELECTION;
+        state.currentTurn = PlayerId.TWO;
+        state.talentChoices = [getTalent('t1'), getTalent('t2')];
+        const snapshot = engine.getReplicatedState();
+        assert.equal(typeof snapshot.rngState, 'number');
+
+        const opponentView = redactSyncStateForPlayer(snapshot, PlayerId.ONE);
+        const draftingView = redactSyncStateForPlayer(snapshot, PlayerId.TWO);
+        [opponentView, draftingView].forEach((view) => {
+            assert.ok(!('rngSeed' in view));
+            assert.ok(!('rngState' in view));
+        });
+        assert.deepEqual(opponentView.talentChoices, []);
+        assert.deepEqual(draftingView.talentChoices.map((talent) => talent.id), ['t1', 't2']);
+    });
+
+    it('leaves units alone when fog of war is disabled', () => {
+        const engine = createUnitVisionEngine();
+        addUnit(engine, UnitType.SOLDIER, at(engine, 0, 0), PlayerId.ONE);
+        addUnit(engine, UnitType.SOLDIER, at(engine, 8, 8), PlayerId.TWO);
+        engine.getState().fogOfWarDisabled = true;
+
+        const snapshot = engine.getReplicatedState();
+        const view = redactSyncStateForPlayer(snapshot, PlayerId.ONE);
+        assert.equal(view.units.length, snapshot.units.length);
+        assert.deepEqual(view.decks[PlayerId.TWO], []);
+    });
+});
+
+describe('redactCueForViewer', () => {
+    const visibleUnitIds = (engine: ReturnType<typeof createTestEngine>, viewerId: PlayerId) => (
+        new Set(redactSyncStateForPlayer(engine.getReplicatedState(), viewerId).units.map((unit) => unit.id))
+    );
+
+    it('keeps a fogged attack cue away from the opponent', () => {
+        const engine = createUnitVisionEngine();
+        const attacker = addUnit(engine, UnitType.SOLDIER, at(engine, 0, 0), PlayerId.ONE);
+        const target = addUnit(engine, UnitType.SOLDIER, at(engine, 2, 0), PlayerId.NEUTRAL);
+        addUnit(engine, UnitType.SOLDIER, at(engine, 8, 8), PlayerId.TWO);
+
+        const { events, rejection } = engine.applyCommand({
+            action: 'ATTACK',
+            data: { attackerId: attacker.id, targetId: target.id },
+            actorPlayerId: PlayerId.ONE
+        });
+        const cue = events.find((event) => event.action === 'ATTACK_ANIMATION');
+        assert.equal(rejection, null);
+        assert.ok(cue);
+
+        assert.deepEqual(redactCueForViewer(cue.data, visibleUnitIds(engine, PlayerId.ONE)), cue.data);
+        assert.equal(redactCueForViewer(cue.data, visibleUnitIds(engine, PlayerId.TWO)), null);
+    });
+
+    it('trims pulse lists to the units the viewer can see', () => {
+        const cue = { pulses: [{ unitId: 'seen', amount: 10 }, { unitId: 'fogged', amount: 20 }] };
+
+        assert.deepEqual(redactCueForViewer(cue, new Set(['seen'])), { pulses: [{ unitId: 'seen', amount: 10 }] });
+        assert.equal(redactCueForViewer(cue, new Set()), null);
+    });
+});
+
+describe('spectator fog of war', () => {
+    const createSpectatorEngine = () => {
+        const engine = createUnitVisionEngine();
+        const state = engine.getState();
+        state.isMultiplayer = true;
+        state.myPlayerId = null;
+        addUnit(engine, UnitType.SOLDIER, at(engine, 0, 0), PlayerId.ONE);
+        addUnit(engine, UnitType.SOLDIER, at(engine, 8, 8), PlayerId.TWO);
+        return engine;
+    };
+
+    it('reveals the whole board with full vision', () => {
+        const engine = createSpectatorEngine();
+        engine.getState().spectatorPerspective = 'ALL';
+        engine.updateFogOfWar();
+
+        const state = engine.getState();
+        assert.equal(state.revealedTiles.length, Object.keys(state.terrain).length);
+    });
+
+    it('reveals exactly what the watched seat sees', () => {
+        const engine = createSpectatorEngine();
+        engine.getState().spectatorPerspective = PlayerId.TWO;
+        engine.updateFogOfWar();
+
+        const expected = collectRevealedTiles(PlayerId.TWO, engine.getState());
+        assert.deepEqual([...engine.getState().revealedTiles].sort(), [...expected].sort());
+        assert.ok(!engine.getState().revealedTiles.includes(tileKey(at(engine, 0, 0))));
+    });
+});
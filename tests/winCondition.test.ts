@@ -0,0 +1,100 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AppStatus, EmptyMapConfig, PlayerId, UnitType } from '../types';
+import { addUnit, createTestEngine } from './helpers';
+
+// Starts a match for the mode, then leaves exactly one soldier for each surviving player.
+const resolveWithSurvivors = (config: EmptyMapConfig, survivors: PlayerId[]) => {
+    const engine = createTestEngine(config);
+    survivors.forEach((playerId, index) => {
+        addUnit(engine, UnitType.SOLDIER, { x: index, z: 0 }, playerId);
+    });
+    engine.checkWinCondition();
+    return engine.getState();
+};
+
+describe('checkWinCondition', () => {
+    it('duel: the last player standing wins', () => {
+        const state = resolveWithSurvivors({ players: 2, mode: 'duel' }, [PlayerId.TWO]);
+        assert.deepEqual(state.winner, [PlayerId.TWO]);
+        assert.equal(state.appStatus, AppStatus.GAME_OVER);
+    });
+
+    it('duel: no winner while both players have units', () => {
+        const state = resolveWithSurvivors({ players: 2, mode: 'duel' }, [PlayerId.ONE, PlayerId.TWO]);
+        assert.equal(state.winner, null);
+        assert.equal(state.appStatus, AppStatus.PLAYING);
+    });
+
+    it('ffa: keeps going until a single player is left', () => {
+        const ongoing = resolveWithSurvivors({ players: 4, mode: 'ffa' }, [PlayerId.ONE, PlayerId.THREE]);
+        assert.equal(ongoing.winner, null);
+
+        const finished = resolveWithSurvivors({ players: 4, mode: 'ffa' }, [PlayerId.FOUR]);
+        assert.deepEqual(finished.winner, [PlayerId.FOUR]);
+    });
+
+    it('team_2v1: the pair wins together even if only one of them survives', () => {
+        const state = resolveWithSurvivors({ players: 3, mode: 'team_2v1' }, [PlayerId.TWO]);
+        assert.deepEqual(state.winner, [PlayerId.ONE, PlayerId.TWO]);
+    });
+
+    it('team_2v1: the solo player wins once both opponents are gone', () => {
+        const state = resolveWithSurvivors({ players: 3, mode: 'team_2v1' }, [PlayerId.THREE]);
+        assert.deepEqual(state.winner, [PlayerId.THREE]);
+    });
+
+    it('team_2v1: no winner while both sides have units', () => {
+        const state = resolveWithSurvivors({ players: 3, mode: 'team_2v1' }, [PlayerId.ONE, PlayerId.THREE]);
+        assert.equal(state.winner, null);
+    });
+
+    it('team_2v2: a team wins when the other team is wiped out', () => {
+        const alpha = resolveWithSurvivors({ players: 4, mode: 'team_2v2' }, [PlayerId.ONE]);
+        assert.deepEqual(alpha.winner, [PlayerId.ONE, PlayerId.TWO]);
+
+        const beta = resolveWithSurvivors({ players: 4, mode: 'team_2v2' }, [PlayerId.THREE, PlayerId.FOUR]);
+        assert.deepEqual(beta.winner, [PlayerId.THREE, PlayerId.FOUR]);
+    });
+
+    it('team_2v2: no winner while each team has a survivor', () => {
+        const state = resolveWithSurvivors({ players: 4, mode: 'team_2v2' }, [PlayerId.TWO, PlayerId.FOUR]);
+        assert.equal(state.winner, null);
+    });
+
+    it('neutral units do not keep a player alive', () => {
+        const engine = createTestEngine({ players: 2, mode: 'duel' });
+        addUnit(engine, UnitType.SOLDIER, { x: 0, z: 0 }, PlayerId.ONE);
+        addUnit(engine, UnitType.TOWER, { x: 2, z: 0 }, PlayerId.NEUTRAL);
+        engine.checkWinCondition();
+        assert.deepEqual(engine.getState().winner, [PlayerId.ONE]);
+    });
+
+    it('declares nobody when every player is eliminated at once', () => {
+        const state = resolveWithSurvivors({ players: 2, mode: 'duel' }, []);
+        assert.equal(state.winner, null);
+    });
+});
+
+describe('starting a new match on the same engine', () => {
+    it('clears the previous winner and opens with the requested turn order', () => {
+        const engine = createTestEngine({ players: 2, mode: 'duel' });
+        addUnit(engine, UnitType.SOLDIER, { x: 0, z: 0 }, PlayerId.TWO);
+        engine.checkWinCondition();
+        assert.deepEqual(engine.getState().winner, [PlayerId.TWO]);
+
+        engine.startGame('EMPTY', false, { x: 10, y: 10 }, { players: 2, mode: 'duel' }, 2, {}, [PlayerId.TWO, PlayerId.ONE]);
+        const state = engine.getState();
+        assert.equal(state.winner, null);
+        assert.equal(state.appStatus, AppStatus.PLAYING);
+        assert.deepEqual(state.turnOrder, [PlayerId.TWO, PlayerId.ONE]);
+        assert.equal(state.currentTurn, PlayerId.TWO);
+    });
+
+    it('ignores a turn order that does not seat exactly the active players', () => {
+        const engine = createTestEngine({ players: 2, mode: 'duel' });
+        engine.startGame('EMPTY', false, { x: 10, y: 10 }, { players: 2, mode: 'duel' }, 2, {}, [PlayerId.THREE, PlayerId.ONE]);
+        assert.deepEqual(engine.getState().turnOrder, [PlayerId.ONE, PlayerId.TWO]);
+        assert.equal(engine.getState().currentTurn, PlayerId.ONE);
+    });
+});
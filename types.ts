@@ -37,7 +37,8 @@ export enum AppStatus {
   GAME_OVER = 'GAME_OVER',
   TALENT_SELECTION = 'TALENT_SELECTION', // New state for choosing level-up rewards
   SHOP = 'SHOP',        // Purchasing units
-  CARD_CATALOGUE = 'CARD_CATALOGUE' // Viewing all cards
+  CARD_CATALOGUE = 'CARD_CATALOGUE', // Viewing all cards
+  REPLAY = 'REPLAY' // Watching a recorded match
 }
 
 export enum UnitType {
@@ -93,6 +94,8 @@ export interface MapBounds {
 
 export type MapPlayerSupport = 2 | 3 | 4 | 'dev';
 export type MatchMode = 'duel' | 'team_2v1' | 'team_2v2' | 'ffa';
+export type AiDifficulty = 'EASY' | 'NORMAL' | 'HARD';
+export type AiPlayerAssignments = Partial<Record<PlayerId, AiDifficulty>>; // Solo seats played by the AI controller
 
 export interface EmptyMapConfig {
   players: 2 | 3 | 4;
@@ -194,6 +197,8 @@ export interface UnitStatus {
   attackTargetId?: string | null;     // Transient: For current animation frame
   autoAttackTargetId?: string | null; // Persistent: For "Nemesis" logic
   neutralHasAttacked?: boolean;
+  neutralAggroUnitId?: string | null; // Last non-neutral unit to damage this neutral; cleared when it dies
+  neutralPatrolIndex?: number;        // Next waypoint for PATROL neutrals
 
   // Mind Control Logic
   mindControlTargetId?: string | null; // ID of the unit being controlled (on Hacker)
@@ -206,6 +211,16 @@ export interface UnitStatus {
   dropsPerkCacheOnDeath?: boolean;
 }
 
+// Map-configured AI for NEUTRAL units. Units without one keep the default: attack the closest target in range.
+export type NeutralBehaviorMode = 'AGGRESSIVE' | 'GUARD' | 'PATROL' | 'RETALIATE' | 'PASSIVE';
+
+export interface NeutralBehavior {
+  mode: NeutralBehaviorMode;
+  anchor?: Position;      // GUARD: center of the guarded zone, defaults to the spawn tile
+  leashRadius?: number;   // GUARD: furthest (in tiles) the unit will chase from its anchor
+  waypoints?: Position[]; // PATROL: walked in order, looping back to the first
+}
+
 export interface Unit {
   id: string;
   playerId: PlayerId;
@@ -218,6 +233,7 @@ export interface Unit {
   status: UnitStatus;
   effects: Effect[];
   movePath: Position[];
+  neutralBehavior?: NeutralBehavior;
 }
 
 export interface Card {
@@ -304,6 +320,88 @@ export interface Collectible {
   position: Position;
 }
 
+export interface ReplayTurnMarker {
+  checkpointIndex: number;
+  commandIndex: number;
+  roundNumber: number;
+  currentTurn: PlayerId;
+}
+
+export interface ReplayViewState {
+  roomId: string;
+  mapId: string;
+  cursor: number; // Commands applied so far
+  totalCommands: number;
+  isPlaying: boolean;
+  speed: number;
+  turns: ReplayTurnMarker[];
+  activeTurnIndex: number;
+}
+
+// One entry of the public lobby browser: a listed room that still has an open slot.
+export interface LobbyListing {
+  roomId: string;
+  mapId: string;
+  matchMode: MatchMode;
+  playerCount: number;
+  maxPlayers: number;
+  hostAdminEnabled: boolean;
+  fogOfWarDisabled: boolean;
+  spectatorDelayMs: number;
+  createdAt: number;
+}
+
+// What a spectator sees: everything, or exactly what one seat sees.
+export type SpectatorPerspective = PlayerId | 'ALL';
+
+// In-match chat: ALL reaches every seat, TEAM only the sender's allies (team match modes only).
+export type ChatChannel = 'ALL' | 'TEAM';
+
+export interface ChatMessage {
+  id: string;
+  playerId: PlayerId;
+  channel: ChatChannel;
+  text: string;
+  timestamp: number;
+}
+
+// The server-kept deadline of the current multiplayer turn, converted to this client's clock on arrival.
+export interface TurnClock {
+  playerId: PlayerId;
+  deadlineAt: number; // Local timestamp at which the turn timer runs out and overtime starts
+  overtimeLimitMs: number; // Overtime the server allows before it ends the turn
+  pausedRemainingMs: number | null; // Set while the match waits for a reconnect
+}
+
+// A tile marked with alt-click; only the pinging player's allies receive it.
+export interface TilePing {
+  id: string;
+  playerId: PlayerId;
+  x: number;
+  z: number;
+  createdAt: number;
+}
+
+// Economy and pacing of one match. Starts from the defaults in utils/matchRules.ts; lobby hosts and solo setup can change it.
+export interface MatchRules {
+  initialCredits: number;
+  incomePerTurn: number;
+  turnTimerSeconds: number;
+  maxInventoryCapacity: number;
+  deliveryRounds: number[]; // Ascending; each restocks the shop and pays a supply injection, the last closes the shop
+  talentSelectionLevelStep: number; // A talent draft every this many rounds
+}
+
+// A room's running series and the rematch vote on its win screen, as reported by 'rematch_state'.
+export interface MatchSeries {
+  matchNumber: number;
+  scores: Partial<Record<PlayerId, number>>; // Matches won in this room, a point per player on the winning side
+  acceptedPlayerIds: PlayerId[];
+  waitingPlayerIds: PlayerId[]; // Connected players who have not accepted the rematch yet
+  rotateTurnOrder: boolean; // Host setting: the rematch moves the first turn to the next player
+  nextFirstPlayerId: PlayerId;
+}
+
 export interface GameState {
   appStatus: AppStatus;
   mapId: string; // Identifies the current map
@@ -321,10 +419,14 @@ export interface GameState {
   turnOrder: PlayerId[];
   matchMode: MatchMode;
   winner: PlayerId[] | null;
+  matchRules: MatchRules;
   roundNumber: number;
   turnCount: number;
   turnStartedAt: number;
+  turnClock: TurnClock | null; // Multiplayer only; solo turns run off turnStartedAt
   turnOvertimeDamageApplied: number;
+  rngSeed: number; // Seed the match started from
+  rngState: number; // Current PRNG state; advanced only by the rules engine's random()
   decks: { [key in PlayerId]: Card[] };
   selectedCardId: string | null;
   selectedUnitId: string | null;
@@ -353,7 +455,7 @@ export interface GameState {
   shopBudgetRemaining: { [key in PlayerId]: number };
   shopStock: { [key in PlayerId]: ShopItem[] }; // Items available to buy per player
   pendingOrders: { [key in PlayerId]: ShopItem[] }; // Items bought but waiting for delivery
-  nextDeliveryRound: number; // 10, 25, 50, 100
+  nextDeliveryRound: number; // Next entry of matchRules.deliveryRounds
   shopAvailable: boolean;
   deliveryHappened: boolean; // Flag for visual feedback
   recentlyDeliveredCardIds: { [key in PlayerId]: string[] };
@@ -367,10 +469,25 @@ export interface GameState {
   hostAdminEnabled: boolean;
   fogOfWarDisabled: boolean;
   isInGameAdmin: boolean;
+  isLobbyHost: boolean;
+  seatRejoinCodes: Partial<Record<PlayerId, string>>; // Codes the host reissued for disconnected seats, to pass on
   connectedPlayerIds: PlayerId[];
   disconnectedPlayerIds: PlayerId[];
   isAwaitingReconnect: boolean;
   myPlayerId: PlayerId | null; // The player ID that THIS client controls
+  spectatorPerspective: SpectatorPerspective | null; // Set while THIS client watches a room without a seat
+  spectatorDelayMs: number; // How far the spectator feed runs behind the match
+  publicLobbies: LobbyListing[]; // Live lobby browser list while the multiplayer menu is open
+  chatMessages: ChatMessage[]; // Recent chat of the current room, oldest first
+  tilePings: TilePing[]; // Ally pings still on screen
+  mutedPlayerIds: PlayerId[]; // Players whose chat and pings THIS client hides
+  matchSeries: MatchSeries | null; // Set once a match in the room has ended
+
+  // Solo AI Opponents
+  aiPlayers: AiPlayerAssignments;
+
+  // Replay Viewer
+  replay: ReplayViewState | null;
 
   // Developer Mode Flag
   isDevMode: boolean;
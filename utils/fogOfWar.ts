@@ -0,0 +1,74 @@
+import { CONTESTED_PLAYER_IDS, MapBounds, MatchMode, PlayerId, TerrainData, Unit } from '../types';
+
+// Tiles revealed around each landing-zone tile and around every friendly unit's footprint.
+export const FOG_REVEAL_RADIUS = 2;
+
+const TEAM_ALPHA: PlayerId[] = [PlayerId.ONE, PlayerId.TWO];
+const TEAM_BETA: PlayerId[] = [PlayerId.THREE, PlayerId.FOUR];
+
+export const arePlayersAlliedInMode = (matchMode: MatchMode, a: PlayerId, b: PlayerId): boolean => {
+    if (a === b) return true;
+    if (!CONTESTED_PLAYER_IDS.includes(a) || !CONTESTED_PLAYER_IDS.includes(b)) return false;
+
+    switch (matchMode) {
+        case 'team_2v1':
+        case 'team_2v2':
+            return (TEAM_ALPHA.includes(a) && TEAM_ALPHA.includes(b))
+                || (TEAM_BETA.includes(a) && TEAM_BETA.includes(b));
+        default:
+            return false;
+    }
+};
+
+export interface VisionSource {
+    terrain: Record<string, TerrainData>;
+    units: Unit[];
+    mapBounds: MapBounds;
+    matchMode: MatchMode;
+}
+
+// Everything `viewerId`'s side can currently see: its landing zones plus the surroundings of its and its allies' units.
+export const collectRevealedTiles = (viewerId: PlayerId, source: VisionSource): Set<string> => {
+    const { terrain, units, mapBounds, matchMode } = source;
+    const revealed = new Set<string>();
+
+    const revealArea = (originX: number, originZ: number, size: number) => {
+        for (let dx = -FOG_REVEAL_RADIUS; dx < FOG_REVEAL_RADIUS + size; dx++) {
+            for (let dz = -FOG_REVEAL_RADIUS; dz < FOG_REVEAL_RADIUS + size; dz++) {
+                const x = originX + dx;
+                const z = originZ + dz;
+                if (
+                    x < mapBounds.originX || x >= mapBounds.originX + mapBounds.width ||
+                    z < mapBounds.originZ || z >= mapBounds.originZ + mapBounds.height
+                ) continue;
+
+                const key = `${x},${z}`;
+                if (!terrain[key]) continue;
+                revealed.add(key);
+            }
+        }
+    };
+
+    Object.keys(terrain).forEach((key) => {
+        if (terrain[key]?.landingZone !== viewerId) return;
+        const [originX, originZ] = key.split(',').map(Number);
+        revealArea(originX, originZ, 1);
+    });
+
+    units.forEach((unit) => {
+        if (!arePlayersAlliedInMode(matchMode, viewerId, unit.playerId)) return;
+        revealArea(unit.position.x, unit.position.z, unit.stats.size);
+    });
+
+    return revealed;
+};
+
+export const isUnitInRevealedArea = (unit: Unit, revealed: Set<string>): boolean => {
+    const size = unit.stats.size;
+    for (let dx = 0; dx < size; dx++) {
+        for (let dz = 0; dz < size; dz++) {
+            if (revealed.has(`${unit.position.x + dx},${unit.position.z + dz}`)) return true;
+        }
+    }
+    return false;
+};
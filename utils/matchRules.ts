@@ -0,0 +1,74 @@
+import { MatchRules } from '../types';
+import { DELIVERY_ROUNDS, INCOME_PER_TURN, INITIAL_CREDITS, MAX_INVENTORY_CAPACITY, TALENT_SELECTION_LEVEL_STEP, TURN_TIMER_SECONDS } from '../constants';
+
+type NumericMatchRule = Exclude<keyof MatchRules, 'deliveryRounds'>;
+
+export const DEFAULT_MATCH_RULES: MatchRules = {
+    initialCredits: INITIAL_CREDITS,
+    incomePerTurn: INCOME_PER_TURN,
+    turnTimerSeconds: TURN_TIMER_SECONDS,
+    maxInventoryCapacity: MAX_INVENTORY_CAPACITY,
+    deliveryRounds: DELIVERY_ROUNDS,
+    talentSelectionLevelStep: TALENT_SELECTION_LEVEL_STEP
+};
+
+// Inclusive bounds; the setup panels use them for their inputs and normalizeMatchRules clamps to them.
+export const MATCH_RULE_LIMITS: Record<NumericMatchRule, { min: number; max: number }> = {
+    initialCredits: { min: 0, max: 5000 },
+    incomePerTurn: { min: 0, max: 200 },
+    turnTimerSeconds: { min: 15, max: 300 },
+    maxInventoryCapacity: { min: 5, max: 60 },
+    talentSelectionLevelStep: { min: 2, max: 30 }
+};
+
+export const DELIVERY_ROUND_LIMITS = { min: 2, max: 200, maxCount: 8 };
+
+const NUMERIC_MATCH_RULES = Object.keys(MATCH_RULE_LIMITS) as NumericMatchRule[];
+
+const clampWhole = (value: number, min: number, max: number) => Math.max(min, Math.min(max, Math.round(value)));
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export const createDefaultMatchRules = (): MatchRules => ({
+    ...DEFAULT_MATCH_RULES,
+    deliveryRounds: [...DEFAULT_MATCH_RULES.deliveryRounds]
+});
+
+// Rules come from lobby hosts, saves and replicated snapshots: missing or malformed values fall back to the
+// defaults, numbers are clamped to MATCH_RULE_LIMITS, and delivery rounds are deduplicated and sorted.
+export const normalizeMatchRules = (input: unknown): MatchRules => {
+    const source = (input && typeof input === 'object' ? input : {}) as Partial<Record<keyof MatchRules, unknown>>;
+    const rules = createDefaultMatchRules();
+
+    NUMERIC_MATCH_RULES.forEach((rule) => {
+        const value = source[rule];
+        if (isFiniteNumber(value)) {
+            rules[rule] = clampWhole(value, MATCH_RULE_LIMITS[rule].min, MATCH_RULE_LIMITS[rule].max);
+        }
+    });
+
+    if (Array.isArray(source.deliveryRounds)) {
+        const deliveryRounds = Array.from(new Set(
+            source.deliveryRounds
+                .filter(isFiniteNumber)
+                .map((round) => clampWhole(round, DELIVERY_ROUND_LIMITS.min, DELIVERY_ROUND_LIMITS.max))
+        ))
+            .sort((a, b) => a - b)
+            .slice(0, DELIVERY_ROUND_LIMITS.maxCount);
+        if (deliveryRounds.length > 0) {
+            rules.deliveryRounds = deliveryRounds;
+        }
+    }
+
+    return rules;
+};
+
+export const areDefaultMatchRules = (rules: MatchRules): boolean => (
+    NUMERIC_MATCH_RULES.every((rule) => rules[rule] === DEFAULT_MATCH_RULES[rule])
+    && rules.deliveryRounds.join(',') === DEFAULT_MATCH_RULES.deliveryRounds.join(',')
+);
+
+// "10, 25 50" -> [10, 25, 50]; normalizeMatchRules takes care of order and range.
+export const parseDeliveryRounds = (text: string): number[] => (
+    text.split(/[\s,]+/).filter(Boolean).map(Number).filter(Number.isFinite)
+);
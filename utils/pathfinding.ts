@@ -1,7 +1,7 @@
 
 import { Position, TerrainData, MapBounds } from '../types';
 import { BOARD_SIZE } from '../constants';
-import { canTraverseTerrainEdge } from './terrainTraversal';
+import { canTraverseUnitStep } from './terrainTraversal';
 
 interface Node {
   x: number;
@@ -105,7 +105,7 @@ export const findPath = (
 
       if (isBlocked) continue;
 
-      if (unitSize === 1 && !canTraverseTerrainEdge(currentNode, neighbor, terrain)) {
+      if (!canTraverseUnitStep(currentNode, neighbor, unitSize, terrain)) {
         continue;
       }
 
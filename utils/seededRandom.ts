@@ -0,0 +1,13 @@
+// mulberry32: a 32-bit state PRNG. The whole generator state is one uint32, so it can live in
+// GameState, travel in SYNC_STATE and be saved alongside a match.
+
+export const createRandomSeed = (): number => Math.floor(Math.random() * 0x100000000) >>> 0;
+
+export const nextRandom = (rngState: number): { value: number; rngState: number } => {
+    const nextState = (rngState + 0x6D2B79F5) >>> 0;
+    let t = nextState;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    const value = ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+    return { value, rngState: nextState };
+};
@@ -76,3 +76,85 @@ export const canTraverseTerrainEdge = (
 
     return fromExitHeight !== null && toEntryHeight !== null && fromExitHeight === toEntryHeight;
 };
+
+// Parallel ramps (same slope, side by side) form one continuous surface even though a lone
+// ramp cannot be entered from its side.
+const isParallelRampPair = (a: TerrainData, b: TerrainData, direction: EdgeDirection): boolean => {
+    if (a.type !== 'RAMP' || b.type !== 'RAMP') {
+        return false;
+    }
+
+    if (a.elevation !== b.elevation || (((a.rotation || 0) % 4) + 4) % 4 !== (((b.rotation || 0) % 4) + 4) % 4) {
+        return false;
+    }
+
+    const highSide = getRampHighSide(a.rotation || 0);
+    return direction !== highSide && direction !== getOppositeDirection(highSide);
+};
+
+// A footprint stands on a consistent surface when every pair of neighbouring cells under it
+// meets at the same edge height, so a large unit never bridges a ledge or half-sits on a ramp.
+export const isUnitFootprintSurfaceValid = (
+    anchor: Position,
+    unitSize: number,
+    terrain: Record<string, TerrainData>
+): boolean => {
+    for (let i = 0; i < unitSize; i++) {
+        for (let j = 0; j < unitSize; j++) {
+            const cell = { x: anchor.x + i, z: anchor.z + j };
+            const tile = terrain[`${cell.x},${cell.z}`];
+            if (!tile) {
+                return false;
+            }
+
+            const neighbours: Position[] = [];
+            if (i + 1 < unitSize) neighbours.push({ x: cell.x + 1, z: cell.z });
+            if (j + 1 < unitSize) neighbours.push({ x: cell.x, z: cell.z + 1 });
+
+            for (const neighbour of neighbours) {
+                const neighbourTile = terrain[`${neighbour.x},${neighbour.z}`];
+                if (!neighbourTile) {
+                    return false;
+                }
+
+                const direction = getStepDirection(cell, neighbour)!;
+                if (!canTraverseTerrainEdge(cell, neighbour, terrain) && !isParallelRampPair(tile, neighbourTile, direction)) {
+                    return false;
+                }
+            }
+        }
+    }
+
+    return true;
+};
+
+// One-tile step of a unit anchored at its top-left cell. Every cell on the leading edge has to
+// cross its own terrain edge legally, and the footprint has to land on a consistent surface.
+export const canTraverseUnitStep = (
+    fromAnchor: Position,
+    toAnchor: Position,
+    unitSize: number,
+    terrain: Record<string, TerrainData>
+): boolean => {
+    const direction = getStepDirection(fromAnchor, toAnchor);
+    if (!direction) {
+        return false;
+    }
+
+    const dx = toAnchor.x - fromAnchor.x;
+    const dz = toAnchor.z - fromAnchor.z;
+    const leadingOffset = dx > 0 || dz > 0 ? unitSize - 1 : 0;
+
+    for (let lane = 0; lane < unitSize; lane++) {
+        const from = dx !== 0
+            ? { x: fromAnchor.x + leadingOffset, z: fromAnchor.z + lane }
+            : { x: fromAnchor.x + lane, z: fromAnchor.z + leadingOffset };
+        const to = { x: from.x + dx, z: from.z + dz };
+
+        if (!canTraverseTerrainEdge(from, to, terrain)) {
+            return false;
+        }
+    }
+
+    return isUnitFootprintSurfaceValid(toAnchor, unitSize, terrain);
+};